@@ -0,0 +1,90 @@
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { heatColor } from "@/lib/curvatureMaterial";
+import { ClockProbe, dilationHeat, rateAtHeat } from "@/lib/physics";
+
+interface ClockProbesPanelProps {
+  showDilation: boolean;
+  onShowDilationChange: (value: boolean) => void;
+  placeOnClick: boolean;
+  onPlaceOnClickChange: (value: boolean) => void;
+  clocks: ClockProbe[];
+  onRemove: (id: number) => void;
+  onSynchronize: () => void;
+  onClear: () => void;
+}
+
+const LEGEND_STOPS = [0, 0.25, 0.5, 0.75, 1];
+
+const cssColor = (heat: number) => `#${heatColor(heat).getHexString()}`;
+
+// Time-dilation overlay and static clocks that tick at their local rate
+export function ClockProbesPanel({
+  showDilation,
+  onShowDilationChange,
+  placeOnClick,
+  onPlaceOnClickChange,
+  clocks,
+  onRemove,
+  onSynchronize,
+  onClear,
+}: ClockProbesPanelProps) {
+  return (
+    <div>
+      <h3 className="font-medium mb-4">Clocks ({clocks.length})</h3>
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <label className="text-sm">Time Dilation Overlay</label>
+          <Switch checked={showDilation} onCheckedChange={onShowDilationChange} />
+        </div>
+        {showDilation && (
+          <div>
+            <div
+              className="h-2 rounded"
+              style={{ background: `linear-gradient(to right, ${LEGEND_STOPS.map(cssColor).join(", ")})` }}
+            />
+            <div className="flex justify-between text-xs text-muted-foreground font-mono mt-1">
+              <span>{rateAtHeat(0).toFixed(4)}</span>
+              <span>{rateAtHeat(0.5).toFixed(2)}</span>
+              <span>0</span>
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">Clock rate √(1−2GM/rc²) against a distant observer.</p>
+          </div>
+        )}
+        <div className="flex items-center justify-between">
+          <label className="text-sm">Place Clocks on Click</label>
+          <Switch checked={placeOnClick} onCheckedChange={onPlaceOnClickChange} />
+        </div>
+        {clocks.length > 0 && (
+          <div className="space-y-1">
+            <div className="max-h-40 overflow-y-auto space-y-1">
+              {clocks.map((clock, i) => (
+                <div key={clock.id} className="flex items-center justify-between text-xs">
+                  <div className="flex items-center gap-2">
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: cssColor(dilationHeat(clock.rate)) }} />
+                    <span className="font-mono">
+                      {i + 1}: τ {clock.properTime.toFixed(2)} s · t {clock.coordinateTime.toFixed(2)} s
+                    </span>
+                    <span className="text-muted-foreground">×{clock.rate.toFixed(4)}</span>
+                  </div>
+                  <Button size="sm" variant="ghost" className="h-6 px-2" onClick={() => onRemove(clock.id)}>
+                    ×
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">τ is the clock's proper time, t the distant observer's.</p>
+            <div className="grid grid-cols-2 gap-2">
+              <Button size="sm" variant="outline" onClick={onSynchronize}>
+                Synchronize
+              </Button>
+              <Button size="sm" variant="outline" onClick={onClear}>
+                Clear Clocks
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
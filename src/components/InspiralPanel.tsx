@@ -0,0 +1,117 @@
+import { ChartConfig, ChartContainer } from "@/components/ui/chart";
+import { Switch } from "@/components/ui/switch";
+import { BinaryStatus } from "@/lib/physics";
+import { Line, LineChart, XAxis, YAxis } from "recharts";
+
+export interface WaveformSample {
+  time: number;
+  strain: number;
+  frequency: number;
+}
+
+// The compact binary being followed, with its recent waveform
+export interface InspiralReadout {
+  ids: [string, string];
+  status: BinaryStatus | null; // null once the pair has merged
+  samples: WaveformSample[];
+  mergedAt: number | null;
+}
+
+interface InspiralPanelProps {
+  enabled: boolean;
+  onEnabledChange: (value: boolean) => void;
+  inspiral: InspiralReadout | null;
+  label: string; // names of the two bodies
+}
+
+const chartConfig = {
+  strain: { label: "D·h+", color: "var(--chart-1)" },
+  frequency: { label: "f (Hz)", color: "var(--chart-2)" },
+} satisfies ChartConfig;
+
+const formatDuration = (seconds: number) => {
+  if (!Number.isFinite(seconds)) return "∞";
+  if (seconds < 60) return `${seconds.toFixed(1)} s`;
+  if (seconds < 3600) return `${(seconds / 60).toFixed(1)} min`;
+  return `${(seconds / 3600).toFixed(1)} h`;
+};
+
+// Gravitational-wave inspiral of the most tightly bound neutron star or black hole pair
+export function InspiralPanel({ enabled, onEnabledChange, inspiral, label }: InspiralPanelProps) {
+  const status = inspiral?.status;
+
+  return (
+    <div>
+      <h3 className="font-medium mb-4">Gravitational Waves</h3>
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <label className="text-sm">Radiation Reaction</label>
+          <Switch checked={enabled} onCheckedChange={onEnabledChange} />
+        </div>
+        {!inspiral && (
+          <p className="text-xs text-muted-foreground">
+            Bound pairs of neutron stars or black holes lose orbital energy and spiral in while the simulation runs.
+          </p>
+        )}
+        {inspiral && (
+          <div className="space-y-3">
+            <div className="text-xs space-y-1">
+              <p>{label}</p>
+              {status ? (
+                <div className="font-mono">
+                  <p>time to coalescence {formatDuration(status.timeToCoalescence)}</p>
+                  <p>
+                    a {status.semiMajorAxis.toFixed(2)} · e {status.eccentricity.toFixed(3)} · f {status.frequency.toFixed(2)} Hz
+                  </p>
+                </div>
+              ) : (
+                <p className="font-mono">merged at t = {inspiral.mergedAt?.toFixed(1)} s</p>
+              )}
+            </div>
+            {inspiral.samples.length > 1 && (
+              <>
+                <div>
+                  <p className="text-xs text-muted-foreground mb-1">Strain h+ × distance, face-on</p>
+                  <ChartContainer config={chartConfig} className="aspect-auto h-24 w-full">
+                    <LineChart data={inspiral.samples} margin={{ top: 4, right: 4, bottom: 0, left: 0 }}>
+                      <XAxis dataKey="time" type="number" domain={["dataMin", "dataMax"]} hide />
+                      <YAxis width={44} tickFormatter={(value: number) => value.toExponential(0)} />
+                      <Line
+                        dataKey="strain"
+                        stroke="var(--color-strain)"
+                        dot={false}
+                        strokeWidth={1}
+                        isAnimationActive={false}
+                      />
+                    </LineChart>
+                  </ChartContainer>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground mb-1">Frequency chirp (Hz)</p>
+                  <ChartContainer config={chartConfig} className="aspect-auto h-24 w-full">
+                    <LineChart data={inspiral.samples} margin={{ top: 4, right: 4, bottom: 0, left: 0 }}>
+                      <XAxis
+                        dataKey="time"
+                        type="number"
+                        domain={["dataMin", "dataMax"]}
+                        tickFormatter={(value: number) => `${value.toFixed(0)}s`}
+                      />
+                      <YAxis width={44} tickFormatter={(value: number) => value.toFixed(1)} />
+                      <Line
+                        dataKey="frequency"
+                        stroke="var(--color-frequency)"
+                        dot={false}
+                        strokeWidth={1.5}
+                        isAnimationActive={false}
+                      />
+                    </LineChart>
+                  </ChartContainer>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
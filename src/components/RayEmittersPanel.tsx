@@ -0,0 +1,188 @@
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import {
+  MAX_EMITTERS_PER_SCENE,
+  MAX_FAN_ANGLE,
+  RAY_COUNT_MAX,
+  RAY_COUNT_MIN,
+  RAY_EMITTER_KINDS,
+  RAY_EMITTER_LABELS,
+  RayEmitterFields,
+  RayEmitterKind,
+  STEP_BUDGET_MAX,
+  STEP_BUDGET_MIN,
+} from "@/lib/rayEmitters";
+
+export interface RayEmitter extends RayEmitterFields {
+  _id: string;
+}
+
+interface RayEmittersPanelProps {
+  emitters: RayEmitter[];
+  selectedId: string | null;
+  canEdit: boolean;
+  extent: number; // grid half-extent, bounds the beam width slider
+  onSelect: (id: string | null) => void;
+  onCreate: (kind: RayEmitterKind) => void;
+  onChange: (id: string, patch: Partial<RayEmitterFields>) => void;
+  onDelete: (id: string) => void;
+}
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Lists the scene's light sources and edits the selected one; positions and headings are also draggable in the view
+export function RayEmittersPanel({
+  emitters,
+  selectedId,
+  canEdit,
+  extent,
+  onSelect,
+  onCreate,
+  onChange,
+  onDelete,
+}: RayEmittersPanelProps) {
+  const selected = emitters.find((e) => e._id === selectedId);
+
+  return (
+    <div>
+      <h3 className="font-medium mb-4">Light Sources ({emitters.length})</h3>
+      {canEdit && (
+        <div className="grid grid-cols-3 gap-2 mb-3">
+          {RAY_EMITTER_KINDS.map((kind) => (
+            <Button
+              key={kind}
+              size="sm"
+              variant="outline"
+              className="text-xs"
+              disabled={emitters.length >= MAX_EMITTERS_PER_SCENE}
+              onClick={() => onCreate(kind)}
+            >
+              {RAY_EMITTER_LABELS[kind].split(" ")[0]}
+            </Button>
+          ))}
+        </div>
+      )}
+      {emitters.length === 0 && (
+        <p className="text-xs text-muted-foreground">No light sources; geodesics use the default beam from the left edge.</p>
+      )}
+      <div className="space-y-2 max-h-40 overflow-y-auto">
+        {emitters.map((emitter, i) => (
+          <Card
+            key={emitter._id}
+            className={`p-2 cursor-pointer transition-colors ${selectedId === emitter._id ? "bg-accent" : ""}`}
+            onClick={() => onSelect(selectedId === emitter._id ? null : emitter._id)}
+          >
+            <div className="flex justify-between items-center">
+              <div className="flex items-center gap-2">
+                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: emitter.color }} />
+                <p className="text-sm">
+                  {RAY_EMITTER_LABELS[emitter.kind]} {i + 1}
+                </p>
+              </div>
+              {canEdit && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDelete(emitter._id);
+                  }}
+                >
+                  ×
+                </Button>
+              )}
+            </div>
+          </Card>
+        ))}
+      </div>
+
+      {selected && canEdit && (
+        <div className="space-y-4 mt-4">
+          {selected.kind !== "single" && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm">Rays</label>
+                <span className="text-xs text-muted-foreground">{selected.rayCount}</span>
+              </div>
+              <Slider
+                min={RAY_COUNT_MIN}
+                max={RAY_COUNT_MAX}
+                step={1}
+                value={[selected.rayCount]}
+                onValueChange={([value]) => onChange(selected._id, { rayCount: value })}
+              />
+            </div>
+          )}
+          {selected.kind === "parallel" && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm">Beam Width</label>
+                <span className="text-xs text-muted-foreground">{selected.spread.toFixed(1)}</span>
+              </div>
+              <Slider
+                min={0}
+                max={extent * 4}
+                step={0.5}
+                value={[selected.spread]}
+                onValueChange={([value]) => onChange(selected._id, { spread: value })}
+              />
+            </div>
+          )}
+          {selected.kind === "point" && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm">Fan Angle</label>
+                <span className="text-xs text-muted-foreground">{toDegrees(selected.spread).toFixed(0)}°</span>
+              </div>
+              <Slider
+                min={0}
+                max={toDegrees(MAX_FAN_ANGLE)}
+                step={1}
+                value={[toDegrees(selected.spread)]}
+                onValueChange={([value]) => onChange(selected._id, { spread: toRadians(value) })}
+              />
+            </div>
+          )}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm">Direction</label>
+              <span className="text-xs text-muted-foreground">{toDegrees(selected.direction).toFixed(0)}°</span>
+            </div>
+            <Slider
+              min={-180}
+              max={180}
+              step={1}
+              value={[toDegrees(selected.direction)]}
+              onValueChange={([value]) => onChange(selected._id, { direction: toRadians(value) })}
+            />
+          </div>
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm">Step Budget</label>
+              <span className="text-xs text-muted-foreground">{selected.stepBudget}</span>
+            </div>
+            <Slider
+              min={STEP_BUDGET_MIN}
+              max={STEP_BUDGET_MAX}
+              step={20}
+              value={[selected.stepBudget]}
+              onValueChange={([value]) => onChange(selected._id, { stepBudget: value })}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <label className="text-sm">Color</label>
+            <Input
+              type="color"
+              value={selected.color}
+              onChange={(e) => onChange(selected._id, { color: e.target.value })}
+              className="w-16 h-8 p-1"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
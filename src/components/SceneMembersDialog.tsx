@@ -0,0 +1,123 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import type { MemberRole } from "@/convex/schema";
+import { useMutation, useQuery } from "convex/react";
+import { UserPlus, X } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+interface SceneMembersDialogProps {
+  sceneId: Id<"scenes">;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const MEMBER_ROLES: MemberRole[] = ["editor", "viewer"];
+
+// Owner-only dialog for inviting collaborators and managing their roles
+export function SceneMembersDialog({ sceneId, open, onOpenChange }: SceneMembersDialogProps) {
+  const members = useQuery(api.scenes.listSceneMembers, open ? { sceneId } : "skip") ?? [];
+  const addSceneMember = useMutation(api.scenes.addSceneMember);
+  const updateSceneMemberRole = useMutation(api.scenes.updateSceneMemberRole);
+  const removeSceneMember = useMutation(api.scenes.removeSceneMember);
+
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<MemberRole>("editor");
+
+  const handleInvite = async () => {
+    try {
+      await addSceneMember({ sceneId, email, role });
+      setEmail("");
+      toast.success("Collaborator added");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to add collaborator");
+    }
+  };
+
+  const handleRoleChange = async (memberId: Id<"sceneMembers">, nextRole: MemberRole) => {
+    try {
+      await updateSceneMemberRole({ memberId, role: nextRole });
+    } catch {
+      toast.error("Failed to update role");
+    }
+  };
+
+  const handleRemove = async (memberId: Id<"sceneMembers">) => {
+    try {
+      await removeSceneMember({ memberId });
+    } catch {
+      toast.error("Failed to remove collaborator");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Collaborators</DialogTitle>
+          <DialogDescription>Editors can place and tweak objects; viewers watch changes live.</DialogDescription>
+        </DialogHeader>
+        <div className="flex gap-2">
+          <Input
+            type="email"
+            placeholder="Email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="flex-1"
+          />
+          <Select value={role} onValueChange={(value) => setRole(value as MemberRole)}>
+            <SelectTrigger className="w-28 capitalize">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MEMBER_ROLES.map((r) => (
+                <SelectItem key={r} value={r} className="capitalize">
+                  {r}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleInvite} disabled={!email.trim()} aria-label="Add collaborator">
+            <UserPlus className="w-4 h-4" />
+          </Button>
+        </div>
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {members.length === 0 && <p className="text-sm text-muted-foreground">No collaborators yet.</p>}
+          {members.map((member) => (
+            <div key={member._id} className="flex items-center gap-2">
+              <p className="text-sm flex-1 truncate">{member.name ?? member.email ?? "Unknown user"}</p>
+              <Select
+                value={member.role}
+                onValueChange={(value) => handleRoleChange(member._id, value as MemberRole)}
+              >
+                <SelectTrigger className="w-28 capitalize" size="sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MEMBER_ROLES.map((r) => (
+                    <SelectItem key={r} value={r} className="capitalize">
+                      {r}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button size="sm" variant="ghost" onClick={() => handleRemove(member._id)} aria-label="Remove">
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
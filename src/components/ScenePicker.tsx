@@ -0,0 +1,238 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { SceneMembersDialog } from "@/components/SceneMembersDialog";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { api } from "@/convex/_generated/api";
+import { Doc, Id } from "@/convex/_generated/dataModel";
+import type { SceneRole } from "@/convex/schema";
+import { useMutation } from "convex/react";
+import { Copy, Link2, Link2Off, Pencil, Plus, Share2, Trash2, Users } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+export type SceneSummary = Pick<Doc<"scenes">, "_id" | "name" | "description" | "updatedAt" | "settings" | "shareToken"> & {
+  role: SceneRole;
+};
+
+interface ScenePickerProps {
+  scenes: SceneSummary[];
+  sceneId: Id<"scenes"> | null;
+  onSelect: (sceneId: Id<"scenes">) => void;
+}
+
+type EditMode = "create" | "rename" | null;
+
+export function ScenePicker({ scenes, sceneId, onSelect }: ScenePickerProps) {
+  const createScene = useMutation(api.scenes.createScene);
+  const renameScene = useMutation(api.scenes.renameScene);
+  const duplicateScene = useMutation(api.scenes.duplicateScene);
+  const deleteScene = useMutation(api.scenes.deleteScene);
+  const publishScene = useMutation(api.scenes.publishScene);
+  const revokeShareLink = useMutation(api.scenes.revokeShareLink);
+
+  const [editMode, setEditMode] = useState<EditMode>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [membersOpen, setMembersOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+
+  const current = scenes.find((s) => s._id === sceneId) ?? null;
+  const isOwner = current?.role === "owner";
+
+  const openEditor = (mode: EditMode) => {
+    setName(mode === "rename" ? (current?.name ?? "") : "");
+    setDescription(mode === "rename" ? (current?.description ?? "") : "");
+    setEditMode(mode);
+  };
+
+  const handleSave = async () => {
+    try {
+      if (editMode === "create") {
+        const newId = await createScene({ name, description: description || undefined });
+        onSelect(newId);
+        toast.success("Scene created");
+      } else if (editMode === "rename" && current) {
+        await renameScene({ sceneId: current._id, name, description: description || undefined });
+        toast.success("Scene renamed");
+      }
+      setEditMode(null);
+    } catch {
+      toast.error("Failed to save scene");
+    }
+  };
+
+  const handleDuplicate = async () => {
+    if (!current) return;
+    try {
+      const copyId = await duplicateScene({ sceneId: current._id });
+      onSelect(copyId);
+      toast.success("Scene duplicated");
+    } catch {
+      toast.error("Failed to duplicate scene");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!current) return;
+    try {
+      await deleteScene({ sceneId: current._id });
+      const next = scenes.find((s) => s._id !== current._id);
+      if (next) onSelect(next._id);
+      toast.success("Scene deleted");
+    } catch {
+      toast.error("Failed to delete scene");
+    }
+  };
+
+  const copyShareLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/s/${token}`);
+      toast.success("Share link copied");
+    } catch {
+      toast.error("Failed to copy share link");
+    }
+  };
+
+  const handleShare = async () => {
+    if (!current) return;
+    try {
+      const token = await publishScene({ sceneId: current._id });
+      await copyShareLink(token);
+    } catch {
+      toast.error("Failed to share scene");
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!current) return;
+    try {
+      await revokeShareLink({ sceneId: current._id });
+      toast.success("Share link revoked");
+    } catch {
+      toast.error("Failed to revoke share link");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Select value={sceneId ?? undefined} onValueChange={(value) => onSelect(value as Id<"scenes">)}>
+        <SelectTrigger className="w-full">
+          <SelectValue placeholder="Select a scene" />
+        </SelectTrigger>
+        <SelectContent>
+          {scenes.map((scene) => (
+            <SelectItem key={scene._id} value={scene._id}>
+              {scene.name}
+              {scene.role !== "owner" && <span className="text-muted-foreground capitalize"> · {scene.role}</span>}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {current?.description && <p className="text-xs text-muted-foreground">{current.description}</p>}
+      <div className="grid grid-cols-5 gap-2">
+        <Button size="sm" variant="outline" onClick={() => openEditor("create")} aria-label="New scene">
+          <Plus className="w-4 h-4" />
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => openEditor("rename")} disabled={!isOwner} aria-label="Rename scene">
+          <Pencil className="w-4 h-4" />
+        </Button>
+        <Button size="sm" variant="outline" onClick={handleDuplicate} disabled={!current} aria-label="Duplicate scene">
+          <Copy className="w-4 h-4" />
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setConfirmDelete(true)}
+          disabled={!isOwner || scenes.length < 2}
+          aria-label="Delete scene"
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => setMembersOpen(true)} disabled={!isOwner} aria-label="Collaborators">
+          <Users className="w-4 h-4" />
+        </Button>
+      </div>
+      {current && isOwner && (
+        <div className="flex gap-2">
+          {current.shareToken ? (
+            <>
+              <Button size="sm" variant="outline" className="flex-1" onClick={() => copyShareLink(current.shareToken!)}>
+                <Link2 className="w-4 h-4 mr-2" />
+                Copy Link
+              </Button>
+              <Button size="sm" variant="outline" onClick={handleRevoke} aria-label="Revoke share link">
+                <Link2Off className="w-4 h-4" />
+              </Button>
+            </>
+          ) : (
+            <Button size="sm" variant="outline" className="w-full" onClick={handleShare}>
+              <Share2 className="w-4 h-4 mr-2" />
+              Share Read-Only Link
+            </Button>
+          )}
+        </div>
+      )}
+
+      <Dialog open={editMode !== null} onOpenChange={(open) => !open && setEditMode(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editMode === "create" ? "New Scene" : "Rename Scene"}</DialogTitle>
+            <DialogDescription>Scenes keep separate setups side by side.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <Input placeholder="Name" value={name} onChange={(e) => setName(e.target.value)} />
+            <Textarea
+              placeholder="Description (optional)"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditMode(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={editMode === "rename" && !name.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {current && isOwner && (
+        <SceneMembersDialog sceneId={current._id} open={membersOpen} onOpenChange={setMembersOpen} />
+      )}
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{current?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>This removes the scene and every object in it.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,16 +1,86 @@
+import { ClockProbesPanel } from "@/components/ClockProbesPanel";
+import { InspiralPanel, InspiralReadout } from "@/components/InspiralPanel";
+import { RayEmitter, RayEmittersPanel } from "@/components/RayEmittersPanel";
+import { ScenePicker } from "@/components/ScenePicker";
+import { LaunchedTrajectory, TestParticlesPanel } from "@/components/TestParticlesPanel";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { api } from "@/convex/_generated/api";
 import { Id } from "@/convex/_generated/dataModel";
+import { Slider } from "@/components/ui/slider";
 import { useAuth } from "@/hooks/use-auth";
+import { CurvatureRequestOptions, useCurvatureWorker } from "@/hooks/use-curvature-worker";
+import { SimulatedBody, useNBodySimulation } from "@/hooks/use-nbody-simulation";
+import { toObjectFields, useSceneHistory } from "@/hooks/use-scene-history";
+import { PresenceCamera, presenceColor, useScenePresence } from "@/hooks/use-scene-presence";
+import {
+  advanceClock,
+  boundCompactPairs,
+  ClockProbe,
+  COLLISION_MODES,
+  CollisionMode,
+  createClockProbe,
+  createPrecessionTracker,
+  DEFAULT_OPENING_ANGLE,
+  describeBinary,
+  dilationHeat,
+  MAX_OPENING_ANGLE,
+  MergerEvent,
+  NullGeodesic,
+  OBJECT_TYPES,
+  objectSize,
+  periapsisVelocity,
+  PhysicsBody,
+  PotentialField,
+  PrecessionReport,
+  precessionReport,
+  PrecessionTracker,
+  recordOrbitSample,
+  SimulationState,
+  TracedRay,
+  traceTestParticle,
+  TrajectoryModel,
+  Vec2,
+  Vec3,
+} from "@/lib/physics";
+import {
+  createCurvatureUniforms,
+  createGridMaterial,
+  createHeatmapMaterial,
+  CURVATURE_TRANSITION_MS,
+  CurvatureUniforms,
+  easeSheetShape,
+  heatColor,
+  MAX_SHADER_BODIES,
+  setCurvatureTarget,
+  setEmbeddingReach,
+  setHeatmapMode,
+  SheetShape,
+} from "@/lib/curvatureMaterial";
+import {
+  clampGridSettings,
+  DEFAULT_GRID_SETTINGS,
+  GRID_DIVISIONS_MAX,
+  GRID_DIVISIONS_MIN,
+  GRID_EXTENT_MAX,
+  GRID_EXTENT_MIN,
+  GridSettings,
+  MAX_FIELD_DIVISIONS,
+} from "@/lib/gridSettings";
+import { createPendingPositions } from "@/lib/pendingPositions";
+import { createStarfield, StarfieldMesh, updateStarfield } from "@/lib/starfieldMaterial";
+import { defaultRayEmitter, RayEmitterFields, RayEmitterKind } from "@/lib/rayEmitters";
+import { parseSceneFile, serializeScene } from "@/lib/sceneFile";
 import { motion } from "framer-motion";
-import { RotateCcw, Settings, Zap } from "lucide-react";
+import { Download, Eye, Orbit, Pause, Play, Redo2, RotateCcw, Settings, StepForward, Undo2, Upload, Zap } from "lucide-react";
 import { useMutation, useQuery } from "convex/react";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { toast } from "sonner";
 import * as THREE from "three";
+import type { CurvatureRequest, CurvatureResult, RayRequest } from "@/workers/curvature.worker";
 
 interface SpaceObject {
   _id: Id<"spaceObjects">;
@@ -18,58 +88,463 @@ interface SpaceObject {
   mass: number;
   position: { x: number; y: number; z: number };
   name?: string;
+  velocity?: { x: number; y: number; z: number };
+  lastEditedByName?: string;
 }
 
-const OBJECT_TYPES = {
-  spaceship: { mass: 0.000001, color: 0x00ff88, size: 0.1 },
-  planet: { mass: 1, color: 0x4488ff, size: 0.3 },
-  star: { mass: 100, color: 0xffaa00, size: 0.5 },
-  neutronstar: { mass: 1000, color: 0xff4444, size: 0.2 },
-  blackhole: { mass: 10000, color: 0x000000, size: 0.4 },
+// Flat sheet in the XZ plane; the curvature shaders displace it along Y
+const createGridGeometry = ({ extent, divisions }: GridSettings) => {
+  const geometry = new THREE.PlaneGeometry(extent * 2, extent * 2, divisions, divisions);
+  // Rotate into XZ plane so Y is "depth" for curvature
+  geometry.rotateX(-Math.PI / 2);
+  return geometry;
 };
 
-export default function SpacetimeVisualizer() {
+const uniformAxis = (extent: number, divisions: number) =>
+  Float32Array.from({ length: divisions + 1 }, (_, i) => -extent + (2 * extent * i) / divisions);
+
+// Moves the sheet's vertices onto the given coordinate lines. The topology never changes,
+// so the wireframe and heatmap sharing this geometry stay seamless however the lines bunch up.
+const layoutGridGeometry = (geometry: THREE.BufferGeometry, xs: Float32Array, zs: Float32Array) => {
+  const position = geometry.getAttribute("position") as THREE.BufferAttribute;
+  if (position.count !== xs.length * zs.length) return;
+  for (let iz = 0; iz < zs.length; iz++) {
+    for (let ix = 0; ix < xs.length; ix++) {
+      position.setXYZ(iz * xs.length + ix, xs[ix], 0, zs[iz]);
+    }
+  }
+  position.needsUpdate = true;
+};
+
+// Length of the heading arrow drawn from a light source's origin
+const EMITTER_ARROW_LENGTH = 1.5;
+const DEFAULT_RAY_COLOR = "#ffe27a";
+// Oldest test particle trajectories are dropped past this many
+const MAX_TRAJECTORIES = 12;
+const TRAJECTORY_COLORS = ["#9be7ff", "#c3a6ff", "#8effa1", "#ffb38a", "#ff8fb1", "#f5f58a"];
+
+const MAX_CLOCKS = 8;
+
+interface ClockMeshes {
+  face: THREE.Mesh<THREE.RingGeometry, THREE.MeshBasicMaterial>; // colored by the local clock rate
+  hand: THREE.Object3D;
+}
+// Proper-time seconds per turn of a clock's hand
+const CLOCK_HAND_PERIOD = 4;
+// Wall-clock milliseconds between refreshes of the clock readouts
+const CLOCK_PUBLISH_INTERVAL = 100;
+
+// Deflection readout of one physically traced ray, in the color of its source
+type RayReport = Pick<NullGeodesic, "captured" | "deflection"> & { color: string };
+// Rays are retraced every simulation frame; their readouts refresh at most this often, in milliseconds
+const RAY_REPORT_PUBLISH_INTERVAL = 100;
+
+const sameRayReports = (a: RayReport[], b: RayReport[]) =>
+  a.length === b.length &&
+  a.every((ray, i) => ray.captured === b[i].captured && ray.deflection === b[i].deflection && ray.color === b[i].color);
+
+// Each handler returns true when it consumed the event
+interface ObjectDragHandlers {
+  begin: (event: MouseEvent) => boolean;
+  move: (event: MouseEvent) => boolean;
+  end: () => boolean;
+}
+
+const COLLISION_LABELS: Record<CollisionMode, string> = {
+  merge: "Inelastic merge",
+  absorb: "Black hole absorption",
+  bounce: "Elastic bounce",
+};
+
+const SHEET_SHAPE_LABELS: Record<SheetShape, string> = {
+  potential: "Weak-field potential (cartoon)",
+  embedding: "Embedding diagram (Flamm)",
+};
+
+// Waveform samples are taken at most this often in simulation seconds, and the newest are kept
+const WAVEFORM_SAMPLE_INTERVAL = 1 / 120;
+const MAX_WAVEFORM_SAMPLES = 1200;
+// Wall-clock milliseconds between waveform chart refreshes
+const WAVEFORM_PUBLISH_INTERVAL = 100;
+
+// Eccentricity given by the "Eccentric Orbit" button; enough for a clearly placed periapsis
+const ECCENTRIC_ORBIT = 0.3;
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// Wireframe pyramid pointing down +Z, so Object3D.lookAt aims it at the viewed point
+const createFrustumGeometry = () => {
+  const w = 0.6;
+  const h = 0.4;
+  const d = 1;
+  const corners = [
+    [-w, -h, d],
+    [w, -h, d],
+    [w, h, d],
+    [-w, h, d],
+  ];
+  const vertices: number[] = [];
+  corners.forEach((corner, i) => {
+    const next = corners[(i + 1) % corners.length];
+    vertices.push(0, 0, 0, ...corner); // apex to corner
+    vertices.push(...corner, ...next); // base edge
+  });
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.Float32BufferAttribute(vertices, 3));
+  return geometry;
+};
+
+interface SpacetimeVisualizerProps {
+  // When set, shows the scene published under this token read-only instead of the user's scenes
+  shareToken?: string;
+}
+
+export default function SpacetimeVisualizer({ shareToken }: SpacetimeVisualizerProps) {
   const { user } = useAuth();
+  const readOnly = shareToken !== undefined;
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
-  const gridRef = useRef<THREE.Mesh<THREE.PlaneGeometry, THREE.MeshBasicMaterial> | null>(null);
-  const heatmapRef = useRef<THREE.Mesh<THREE.PlaneGeometry, THREE.MeshLambertMaterial> | null>(null);
+  const gridRef = useRef<THREE.Mesh<THREE.PlaneGeometry, THREE.ShaderMaterial> | null>(null);
+  const heatmapRef = useRef<THREE.Mesh<THREE.PlaneGeometry, THREE.ShaderMaterial> | null>(null);
+  // Bodies and normalization terms the curvature shaders displace and color the sheet with
+  const curvatureUniformsRef = useRef<CurvatureUniforms | null>(null);
+  const blendStartRef = useRef(0);
   const objectsRef = useRef<Map<string, THREE.Mesh>>(new Map());
   const [selectedObjectType, setSelectedObjectType] = useState<keyof typeof OBJECT_TYPES>("planet");
   const [showGeodesics, setShowGeodesics] = useState(false);
+  const [physicalRays, setPhysicalRays] = useState(false);
+  const [rayReports, setRayReports] = useState<RayReport[]>([]);
+  const rayReportsRef = useRef<RayReport[]>([]);
+  const pendingRayReportsRef = useRef<RayReport[]>([]);
+  const rayReportTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [adaptiveGrid, setAdaptiveGrid] = useState(true);
+  const [showStarfield, setShowStarfield] = useState(false);
+  const starfieldRef = useRef<StarfieldMesh | null>(null);
+  const [sheetShape, setSheetShape] = useState<SheetShape>("potential");
+  const sheetShapeRef = useRef(sheetShape);
+  const adaptiveGridRef = useRef(adaptiveGrid);
+  const [openingAngle, setOpeningAngle] = useState(DEFAULT_OPENING_ANGLE);
+  const openingAngleRef = useRef(openingAngle);
   const [showEducational, setShowEducational] = useState(false);
   const [selectedObject, setSelectedObject] = useState<SpaceObject | null>(null);
   const targetRef = useRef<THREE.Vector3>(new THREE.Vector3(0, 0, 0)); // orbit target
   const sphericalRef = useRef<THREE.Spherical>(new THREE.Spherical(15, Math.PI / 3, 0)); // radius, phi, theta
-  const gridExtentRef = useRef<number>(20); // track plane half-extent for reference potential
-
-  const objects = useQuery(api.objects.getUserObjects) || [];
+  const gridExtentRef = useRef<number>(DEFAULT_GRID_SETTINGS.extent); // track plane half-extent for reference potential
+  // Collaborator cursors, camera frustums and selection halos
+  const presenceGroupRef = useRef<THREE.Group | null>(null);
+  // Camera pose of the presenter being followed; the render loop eases towards it
+  const followCameraRef = useRef<PresenceCamera | null>(null);
+
+  const scenes = useQuery(api.scenes.listScenes, readOnly ? "skip" : {});
+  const sharedScene = useQuery(api.scenes.getSharedScene, readOnly ? { token: shareToken } : "skip");
+  const ensureDefaultScene = useMutation(api.scenes.ensureDefaultScene);
+  const [sceneId, setSceneId] = useState<Id<"scenes"> | null>(null);
+
+  const sceneObjects = useQuery(api.objects.getSceneObjects, !readOnly && sceneId ? { sceneId } : "skip");
+  const objects = useMemo<SpaceObject[]>(
+    () => (readOnly ? sharedScene?.objects : sceneObjects) ?? [],
+    [readOnly, sharedScene, sceneObjects],
+  );
+  // Viewers of a shared scene and share-link visitors get the same read-only controls
+  const sceneRole = scenes?.find((s) => s._id === sceneId)?.role;
+  const canEdit = !readOnly && sceneRole !== undefined && sceneRole !== "viewer";
+  const updateSceneSettings = useMutation(api.scenes.updateSceneSettings);
+  const savedGridSettings = (readOnly ? sharedScene?.settings : scenes?.find((s) => s._id === sceneId)?.settings) ?? DEFAULT_GRID_SETTINGS;
+  const { extent: savedExtent, divisions: savedDivisions } = savedGridSettings;
+  // Local copy so the sliders respond immediately; persisted with a debounce
+  const [gridSettings, setGridSettings] = useState<GridSettings>(savedGridSettings);
   const createObject = useMutation(api.objects.createObject);
   const updateObjectMass = useMutation(api.objects.updateObjectMass);
+  const updateObjectPosition = useMutation(api.objects.updateObjectPosition);
+  const updateObjectVelocity = useMutation(api.objects.updateObjectVelocity);
+  const resolveMerger = useMutation(api.objects.resolveMerger);
   const deleteObject = useMutation(api.objects.deleteObject);
   const clearAllObjects = useMutation(api.objects.clearAllObjects);
-
-  // Store original plane positions to reset before recomputing curvature
-  const basePositionsRef = useRef<Float32Array | null>(null);
-  // Targets for smooth animation of curvature (Y positions)
-  const targetYRef = useRef<Float32Array | null>(null);
-  const targetColorsRef = useRef<Float32Array | null>(null);
+  const createObjects = useMutation(api.objects.createObjects);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const restoreSnapshot = useMutation(api.objects.restoreSnapshot);
+  // Survives reloads, unlike the in-memory history, so a clear-all can always be taken back
+  const latestSnapshot = useQuery(api.objects.getLatestSnapshot, canEdit && sceneId ? { sceneId } : "skip");
+  const {
+    record: recordHistory,
+    recordChange,
+    aliasId,
+    undo: undoHistory,
+    redo: redoHistory,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+  } = useSceneHistory(sceneId, canEdit);
 
   // Add refs to manage geodesics and sampling field
   const geodesicsRef = useRef<Array<THREE.Line>>(new Array<THREE.Line>());
-  const gridDivisionsRef = useRef<number>(64);
-  const fieldRef = useRef<{
-    values: Float32Array; // centered potential per vertex (before scaling)
-    nx: number; // divisions+1 in x
-    nz: number; // divisions+1 in z
-    minX: number;
-    maxX: number;
-    minZ: number;
-    maxZ: number;
+  const gridDivisionsRef = useRef<number>(DEFAULT_GRID_SETTINGS.divisions); // rendered sheet resolution
+  const fieldRef = useRef<PotentialField | null>(null); // centered potential per vertex (before scaling)
+  const fieldBodiesRef = useRef<ReadonlyArray<PhysicsBody>>([]); // bodies the sampling field was computed for
+
+  // Light sources for the geodesic overlay; without any, the default beam from the -X edge is traced
+  const sceneEmitters = useQuery(api.rayEmitters.listEmitters, !readOnly && sceneId ? { sceneId } : "skip");
+  const emitters = useMemo<RayEmitter[]>(
+    () => (readOnly ? sharedScene?.emitters : sceneEmitters) ?? [],
+    [readOnly, sharedScene, sceneEmitters],
+  );
+  const createEmitter = useMutation(api.rayEmitters.createEmitter);
+  const updateEmitter = useMutation(api.rayEmitters.updateEmitter);
+  const deleteEmitter = useMutation(api.rayEmitters.deleteEmitter);
+  const [selectedEmitterId, setSelectedEmitterId] = useState<string | null>(null);
+  // Bumped so the panel re-renders with pending edits
+  const [, setEmitterEditVersion] = useState(0);
+  // Edits not yet confirmed by the server, shown immediately
+  const pendingEmittersRef = useRef<Map<string, Partial<RayEmitterFields>>>(new Map());
+  const emitterGroupRef = useRef<THREE.Group | null>(null);
+  // Pickable handle meshes: the origin moves the source, the arrow tip turns it
+  const emitterHandlesRef = useRef<Map<THREE.Object3D, { id: string; part: "origin" | "direction" }>>(new Map());
+  const emitterDragRef = useRef<{
+    id: string;
+    part: "origin" | "direction";
+    offset: { x: number; z: number };
+    moved: boolean;
   } | null>(null);
 
+  // Test particles are a local overlay: launched from a clicked point, traced once against the bodies at that moment
+  const [launchOnClick, setLaunchOnClick] = useState(false);
+  const [launchVelocity, setLaunchVelocity] = useState<Vec2>({ x: 0, z: 1 });
+  const [trajectoryModel, setTrajectoryModel] = useState<TrajectoryModel>("field");
+  const [colorBySpeed, setColorBySpeed] = useState(true);
+  const [trajectories, setTrajectories] = useState<LaunchedTrajectory[]>([]);
+  const nextTrajectoryIdRef = useRef(0);
+  const trajectoryGroupRef = useRef<THREE.Group | null>(null);
+
+  // Clock probes are local too; they tick every frame at the rate of wherever they were dropped
+  const [showDilation, setShowDilation] = useState(false);
+  const [placeClocks, setPlaceClocks] = useState(false);
+  const [clocks, setClocks] = useState<ClockProbe[]>([]);
+  const clocksRef = useRef<ClockProbe[]>([]);
+  const nextClockIdRef = useRef(0);
+  const clockGroupRef = useRef<THREE.Group | null>(null);
+  const clockMeshesRef = useRef<Map<number, ClockMeshes>>(new Map());
+  const lastClockPublishRef = useRef(0);
+  const onClockFrameRef = useRef<(seconds: number) => void>(() => {});
+
+  const getEffectiveEmitters = useCallback(
+    (): RayEmitter[] => emitters.map((e) => ({ ...e, ...pendingEmittersRef.current.get(e._id) })),
+    [emitters],
+  );
+
+  // N-body time evolution; the render loop reaches the latest callbacks through refs
+  const [collisionsEnabled, setCollisionsEnabled] = useState(true);
+  const [collisionMode, setCollisionMode] = useState<CollisionMode>("merge");
+  const [mergeRadiusFactor, setMergeRadiusFactor] = useState(1);
+  const [postNewtonian, setPostNewtonian] = useState(false);
+
+  // Periapsis advance of the selected body about the heaviest other body, followed every substep
+  const [precession, setPrecession] = useState<PrecessionReport | null>(null);
+  const precessionTargetRef = useRef<string | null>(null);
+  const precessionTrackerRef = useRef<{ bodyId: string; centerId: string; tracker: PrecessionTracker } | null>(null);
+
+  const trackPrecession = useCallback((state: SimulationState<SimulatedBody>) => {
+    const targetId = precessionTargetRef.current;
+    const body = targetId ? state.bodies.find((b) => b.id === targetId) : undefined;
+    const center = body
+      ? state.bodies.reduce<SimulatedBody | null>((best, b) => (b !== body && (!best || b.mass > best.mass) ? b : best), null)
+      : null;
+    if (!body || !center) {
+      if (precessionTrackerRef.current) {
+        precessionTrackerRef.current = null;
+        setPrecession(null);
+      }
+      return;
+    }
+
+    let tracked = precessionTrackerRef.current;
+    if (!tracked || tracked.bodyId !== body.id || tracked.centerId !== center.id) {
+      tracked = { bodyId: body.id, centerId: center.id, tracker: createPrecessionTracker() };
+      precessionTrackerRef.current = tracked;
+      setPrecession(null);
+    }
+    const passage = recordOrbitSample(
+      tracked.tracker,
+      state.time,
+      { x: body.position.x - center.position.x, z: body.position.z - center.position.z },
+      { x: body.velocity.x - center.velocity.x, z: body.velocity.z - center.velocity.z },
+    );
+    if (passage) setPrecession(precessionReport(tracked.tracker, body.mass + center.mass));
+  }, []);
+
+  // Waveform of the most tightly bound compact pair while radiation reaction drives it in
+  const [radiationReaction, setRadiationReaction] = useState(true);
+  const [inspiral, setInspiral] = useState<InspiralReadout | null>(null);
+  const inspiralRef = useRef<{ readout: InspiralReadout; lastSample: number; lastPublish: number } | null>(null);
+
+  const trackInspiral = useCallback((state: SimulationState<SimulatedBody>) => {
+    if (!state.radiationReaction) return;
+    const tracked = inspiralRef.current;
+    const pair = boundCompactPairs(state.bodies)[0];
+
+    if (!pair) {
+      // The followed pair is gone: merged, unless it merely came unbound
+      if (tracked && tracked.readout.mergedAt === null) {
+        const merged = tracked.readout.ids.some((id) => !state.bodies.some((b) => b.id === id));
+        tracked.readout = { ...tracked.readout, status: null, mergedAt: merged ? state.time : null };
+        if (!merged) inspiralRef.current = null;
+        setInspiral(merged ? tracked.readout : null);
+      }
+      return;
+    }
+
+    const [a, b] = pair.map((i) => state.bodies[i]);
+    let current = tracked;
+    if (!current || current.readout.ids[0] !== a.id || current.readout.ids[1] !== b.id) {
+      current = {
+        readout: { ids: [a.id, b.id], status: null, samples: [], mergedAt: null },
+        lastSample: -Infinity,
+        lastPublish: 0,
+      };
+      inspiralRef.current = current;
+    }
+    if (state.time - current.lastSample < WAVEFORM_SAMPLE_INTERVAL) return;
+    current.lastSample = state.time;
+
+    const status = describeBinary(a, b);
+    const { samples } = current.readout;
+    samples.push({ time: state.time, strain: status.strain, frequency: status.frequency });
+    if (samples.length > MAX_WAVEFORM_SAMPLES) samples.shift();
+    current.readout.status = status;
+
+    const now = performance.now();
+    if (now - current.lastPublish >= WAVEFORM_PUBLISH_INTERVAL) {
+      current.lastPublish = now;
+      setInspiral({ ...current.readout, samples: samples.slice() });
+    }
+  }, []);
+
+  const handleSimulationSubstep = useCallback(
+    (state: SimulationState<SimulatedBody>) => {
+      trackPrecession(state);
+      trackInspiral(state);
+    },
+    [trackPrecession, trackInspiral],
+  );
+
+  // Persist each merger in a single transaction so every client converges on the same remnant. Only its
+  // type and mass are stored: the survivor keeps its initial conditions, so Reset rewinds every body together.
+  // When several editors report the same merger the first to reach the server wins; only that client records
+  // the undo step and announces the merger.
+  const handleMerger = useCallback(
+    async (merger: MergerEvent) => {
+      if (!canEdit) return;
+      const survivor = objects.find((o) => o._id === merger.survivorId);
+      const absorbed = objects.find((o) => o._id === merger.absorbedId);
+      try {
+        const applied = await resolveMerger({
+          survivorId: merger.survivorId as Id<"spaceObjects">,
+          absorbedIds: [merger.absorbedId as Id<"spaceObjects">],
+          type: merger.type,
+          mass: merger.mass,
+        });
+        if (applied && survivor && absorbed) {
+          const { type, mass } = merger;
+          recordChange(
+            "merger",
+            [
+              { id: survivor._id, fields: toObjectFields(survivor) },
+              { id: absorbed._id, fields: toObjectFields(absorbed) },
+            ],
+            [
+              { id: survivor._id, fields: { ...toObjectFields(survivor), type, mass } },
+              { id: absorbed._id, fields: null },
+            ],
+          );
+        }
+        if (applied) toast.success(`Merger formed a ${merger.type} of ${merger.mass.toFixed(2)} solar masses`);
+      } catch {
+        toast.error("Failed to record merger");
+      }
+    },
+    [resolveMerger, canEdit, objects, recordChange],
+  );
+
+  const simulation = useNBodySimulation(objects, {
+    collisions: collisionsEnabled ? { mode: collisionMode, radiusFactor: mergeRadiusFactor } : null,
+    gravity: { postNewtonian, radiationReaction },
+    onMerger: handleMerger,
+    onStep: handleSimulationSubstep,
+  });
+  const advanceSimulationRef = useRef(simulation.advance);
+  advanceSimulationRef.current = simulation.advance;
+  const onSimulationFrameRef = useRef<() => void>(() => {});
+
+  // Object being dragged along the y=0 plane, with the grab point's offset from its center
+  const objectDragRef = useRef<{ id: Id<"spaceObjects">; offset: { x: number; z: number }; moved: boolean } | null>(null);
+  // Writes a dragged object's position and records the move for undo; reassigned every render for the latest objects
+  const writePositionRef = useRef<(id: string, position: Vec3) => Promise<void>>(async () => {});
+  // Optimistic positions of dragged objects until the server confirms them
+  const [pendingPositions] = useState(() =>
+    createPendingPositions((id, position) => writePositionRef.current(id, position)),
+  );
+  // Swallows the click that ends a drag so it doesn't place an object
+  const suppressClickRef = useRef(false);
+  // Latest drag handlers for the mount-time mouse listeners
+  const objectDragHandlersRef = useRef<ObjectDragHandlers | null>(null);
+
+  // Live collaborator presence; share-link visitors are anonymous and take no part
+  const { others: collaborators, publish: publishPresence } = useScenePresence(readOnly ? null : sceneId, user?._id);
+  const [isPresenting, setIsPresenting] = useState(false);
+  const [followPresenter, setFollowPresenter] = useState(false);
+  const presenter = collaborators.find((p) => p.isPresenting && p.camera);
+
+  // Open the most recent scene, creating a default one on first visit
+  useEffect(() => {
+    if (!user || readOnly || scenes === undefined) return;
+    if (sceneId && scenes.some((s) => s._id === sceneId)) return;
+    if (scenes.length > 0) {
+      setSceneId(scenes[0]._id);
+      return;
+    }
+    ensureDefaultScene()
+      .then(setSceneId)
+      .catch(() => toast.error("Failed to load scenes"));
+  }, [user, readOnly, scenes, sceneId, ensureDefaultScene]);
+
+  // Each scene starts from its stored initial conditions
+  const resetSimulation = simulation.reset;
+  useEffect(() => {
+    resetSimulation();
+    setSelectedObject(null);
+    setTrajectories([]);
+    inspiralRef.current = null;
+    setInspiral(null);
+    clocksRef.current = [];
+    setClocks([]);
+  }, [sceneId, resetSimulation]);
+
+  // Start measuring afresh for a new body, a new gravity model or a rewound simulation
+  const selectedObjectId = selectedObject?._id ?? null;
+  useEffect(() => {
+    precessionTargetRef.current = selectedObjectId;
+    precessionTrackerRef.current = null;
+    setPrecession(null);
+  }, [selectedObjectId, postNewtonian, sceneId]);
+
+  // Objects as currently displayed: simulated state while a simulation is running (bodies
+  // merged away are dropped) and the selected object's latest mass applied optimistically
+  const getEffectiveObjects = useCallback((): SpaceObject[] => {
+    const simulated = simulation.stateRef.current;
+    const bodies = simulated ? new Map(simulated.bodies.map((b) => [b.id, b])) : null;
+
+    return objects.flatMap((o) => {
+      const body = bodies?.get(o._id);
+      if (bodies && !body) return [];
+      const optimistic = selectedObject && o._id === selectedObject._id ? selectedObject.mass : o.mass;
+      // A pending merger changes the simulated mass before the server confirms it
+      const mass = body && body.mass !== o.mass ? body.mass : optimistic;
+      return [{ ...o, mass, position: body?.position ?? pendingPositions.get(o._id) ?? o.position }];
+    });
+  }, [objects, selectedObject, simulation.stateRef, pendingPositions]);
+
   // Initialize Three.js scene
   useEffect(() => {
     if (!canvasRef.current) return;
@@ -94,56 +569,49 @@ export default function SpacetimeVisualizer() {
     renderer.shadowMap.enabled = false;
     rendererRef.current = renderer;
 
-    // Create spacetime grid (as a deformable plane wireframe)
-    const gridSize = 20;
-    const gridDivisions = 64; // reduced for performance
-    gridDivisionsRef.current = gridDivisions; // track divisions for field sampling
-    const planeGeom = new THREE.PlaneGeometry(gridSize * 2, gridSize * 2, gridDivisions, gridDivisions);
-    // Rotate into XZ plane so Y is "depth" for curvature
-    planeGeom.rotateX(-Math.PI / 2);
-    gridExtentRef.current = gridSize; // remember extent for reference potential
-
-    const gridMaterial = new THREE.MeshBasicMaterial({
-      color: 0x444444,
-      wireframe: true,
-      transparent: true,
-      opacity: 0.6,
-    });
-    const gridMesh = new THREE.Mesh(planeGeom, gridMaterial);
+    // Create spacetime grid (as a deformable plane wireframe); rebuilt when the scene's grid settings change
+    // Displacement happens in the vertex shader, so the sheet can be much finer than the CPU field
+    const planeGeom = createGridGeometry({ extent: gridExtentRef.current, divisions: gridDivisionsRef.current });
+
+    const uniforms = createCurvatureUniforms();
+    setEmbeddingReach(uniforms, gridExtentRef.current);
+    curvatureUniformsRef.current = uniforms;
+
+    const gridMesh = new THREE.Mesh(planeGeom, createGridMaterial(uniforms));
+    // Bounds come from the flat plane; the displaced sheet would otherwise get culled
+    gridMesh.frustumCulled = false;
     gridRef.current = gridMesh;
     scene.add(gridMesh);
 
     // Add a semi-transparent colored surface using the same geometry for curvature heatmap
-    {
-      // Ensure the geometry has a color attribute
-      const geom = planeGeom;
-      const vertexCount = (geom.attributes.position as THREE.BufferAttribute).count;
-      if (!geom.getAttribute("color")) {
-        const colors = new Float32Array(vertexCount * 3);
-        geom.setAttribute("color", new THREE.Float32BufferAttribute(colors, 3));
-      }
-
-      const heatmapMaterial = new THREE.MeshLambertMaterial({
-        vertexColors: true,
-        transparent: true,
-        opacity: 0.35,
-        side: THREE.DoubleSide,
-      });
-      // Prevent the heatmap surface from occluding objects
-      heatmapMaterial.depthWrite = false;
-
-      const heatmapMesh = new THREE.Mesh(geom, heatmapMaterial);
-      // Draw beneath other meshes
-      heatmapMesh.renderOrder = -1;
-      heatmapRef.current = heatmapMesh;
-      scene.add(heatmapMesh);
-    }
-
-    // Cache base positions for curvature reset
-    {
-      const posAttr = planeGeom.attributes.position as THREE.BufferAttribute;
-      basePositionsRef.current = new Float32Array(posAttr.array as ArrayLike<number>);
-    }
+    const heatmapMesh = new THREE.Mesh(planeGeom, createHeatmapMaterial(uniforms));
+    heatmapMesh.frustumCulled = false;
+    // Draw beneath other meshes
+    heatmapMesh.renderOrder = -1;
+    heatmapRef.current = heatmapMesh;
+    scene.add(heatmapMesh);
+
+    const presenceGroup = new THREE.Group();
+    presenceGroupRef.current = presenceGroup;
+    scene.add(presenceGroup);
+
+    const emitterGroup = new THREE.Group();
+    emitterGroupRef.current = emitterGroup;
+    scene.add(emitterGroup);
+
+    const trajectoryGroup = new THREE.Group();
+    trajectoryGroupRef.current = trajectoryGroup;
+    scene.add(trajectoryGroup);
+
+    const clockGroup = new THREE.Group();
+    clockGroupRef.current = clockGroup;
+    scene.add(clockGroup);
+
+    // Optional lensed sky behind everything, replacing the flat background while shown
+    const starfield = createStarfield();
+    starfield.visible = false;
+    starfieldRef.current = starfield;
+    scene.add(starfield);
 
     // Add ambient light
     const ambientLight = new THREE.AmbientLight(0x404040, 0.4);
@@ -174,6 +642,8 @@ export default function SpacetimeVisualizer() {
     };
 
     const handleMouseDown = (event: MouseEvent) => {
+      // Grabbing an object moves it instead of the camera
+      if (objectDragHandlersRef.current?.begin(event)) return;
       isDragging = true;
       dragButton = event.button;
       previousMousePosition = { x: event.clientX, y: event.clientY };
@@ -185,6 +655,7 @@ export default function SpacetimeVisualizer() {
     };
 
     const handleMouseMove = (event: MouseEvent) => {
+      if (objectDragHandlersRef.current?.move(event)) return;
       if (!isDragging || !cameraRef.current) return;
 
       const deltaX = event.clientX - previousMousePosition.x;
@@ -225,6 +696,7 @@ export default function SpacetimeVisualizer() {
     };
 
     const handleMouseUp = () => {
+      objectDragHandlersRef.current?.end();
       isDragging = false;
       dragButton = null;
     };
@@ -233,7 +705,8 @@ export default function SpacetimeVisualizer() {
       const zoomFactor = 1 + Math.sign(event.deltaY) * 0.1;
       const spherical = sphericalRef.current;
       spherical.radius *= zoomFactor;
-      spherical.radius = Math.min(Math.max(spherical.radius, 2), 80);
+      // Allow backing out far enough to see the whole sheet
+      spherical.radius = Math.min(Math.max(spherical.radius, 2), Math.max(80, gridExtentRef.current * 4));
       updateCameraFromSpherical();
     };
 
@@ -263,29 +736,46 @@ export default function SpacetimeVisualizer() {
     handleResize();
 
     // Animation loop with smooth interpolation towards target curvature
+    let frameId = 0;
+    let lastFrameTime = performance.now();
     const animate = () => {
-      requestAnimationFrame(animate);
-
-      // Smoothly interpolate grid Y positions to targets
-      const grid = gridRef.current;
-      if (grid) {
-        const geom = grid.geometry;
-        const pos = geom.attributes.position as THREE.BufferAttribute;
-
-        const targetY = targetYRef.current;
+      frameId = requestAnimationFrame(animate);
+
+      // Advance the n-body simulation by wall-clock time, capped to survive tab switches
+      const now = performance.now();
+      const frameSeconds = Math.min((now - lastFrameTime) / 1000, 0.05);
+      lastFrameTime = now;
+      if (advanceSimulationRef.current(frameSeconds)) {
+        onSimulationFrameRef.current();
+      }
+      onClockFrameRef.current(frameSeconds);
+
+      // Ease towards the followed presenter's view
+      const follow = followCameraRef.current;
+      if (follow) {
+        const ease = 0.15;
+        const spherical = sphericalRef.current;
+        spherical.radius += (follow.radius - spherical.radius) * ease;
+        spherical.phi += (follow.phi - spherical.phi) * ease;
+        // Take the short way round in azimuth
+        const dTheta = Math.atan2(Math.sin(follow.theta - spherical.theta), Math.cos(follow.theta - spherical.theta));
+        spherical.theta += dTheta * ease;
+        targetRef.current.lerp(new THREE.Vector3(follow.target.x, follow.target.y, follow.target.z), ease);
+        updateCameraFromSpherical();
+      }
 
-        // Interpolation factor (0..1), higher is faster
-        const alpha = 0.12;
+      // Advance the shader's blend towards the latest curvature state
+      const uniforms = curvatureUniformsRef.current;
+      if (uniforms && uniforms.uBlend.value < 1) {
+        uniforms.uBlend.value = Math.min(1, (now - blendStartRef.current) / CURVATURE_TRANSITION_MS);
+      }
+      // and between the potential sheet and the embedding diagram over the same duration
+      if (uniforms) easeSheetShape(uniforms, sheetShapeRef.current, (frameSeconds * 1000) / CURVATURE_TRANSITION_MS);
 
-        if (targetY && pos && pos.count === targetY.length) {
-          for (let i = 0; i < pos.count; i++) {
-            const curY = pos.getY(i);
-            const tgtY = targetY[i];
-            pos.setY(i, curY + (tgtY - curY) * alpha);
-          }
-          pos.needsUpdate = true;
-          geom.computeBoundingSphere();
-        }
+      // Lens with the same bodies the curvature field was last computed for
+      if (starfield.visible) {
+        camera.updateMatrixWorld();
+        updateStarfield(starfield, camera, fieldBodiesRef.current);
       }
 
       renderer.render(scene, camera);
@@ -293,6 +783,7 @@ export default function SpacetimeVisualizer() {
     animate();
 
     return () => {
+      cancelAnimationFrame(frameId);
       if (canvasRef.current) {
         canvasRef.current.removeEventListener('mousedown', handleMouseDown);
         canvasRef.current.removeEventListener('mousemove', handleMouseMove);
@@ -304,101 +795,320 @@ export default function SpacetimeVisualizer() {
     };
   }, []);
 
-  // Helper: recompute geodesic lines from current field
-  const recomputeGeodesics = useCallback(() => {
-    // Remove old geodesics
-    if (sceneRef.current && geodesicsRef.current.length) {
+  // Show the latest ray readouts once per interval, and only when they differ from what is shown
+  const publishRayReports = useCallback((reports: RayReport[]) => {
+    pendingRayReportsRef.current = reports;
+    if (rayReportTimerRef.current) return;
+    rayReportTimerRef.current = setTimeout(() => {
+      rayReportTimerRef.current = null;
+      const next = pendingRayReportsRef.current;
+      if (sameRayReports(next, rayReportsRef.current)) return;
+      rayReportsRef.current = next;
+      setRayReports(next);
+    }, RAY_REPORT_PUBLISH_INTERVAL);
+  }, []);
+
+  useEffect(
+    () => () => {
+      if (rayReportTimerRef.current) clearTimeout(rayReportTimerRef.current);
+    },
+    [],
+  );
+
+  // Light paths to trace with the next curvature field, or null while they are hidden; the worker
+  // traces photon orbits in the physical mode and the visual heuristic otherwise
+  const getRayRequest = useCallback(
+    (): RayRequest | null =>
+      showGeodesics
+        ? {
+            sources: getEffectiveEmitters().map(({ kind, origin, direction, spread, rayCount, stepBudget, color }) => ({
+              kind,
+              origin,
+              direction,
+              spread,
+              rayCount,
+              stepBudget,
+              color,
+            })),
+            physical: physicalRays,
+            defaultColor: DEFAULT_RAY_COLOR,
+          }
+        : null,
+    [showGeodesics, physicalRays, getEffectiveEmitters],
+  );
+  const getRayRequestRef = useRef(getRayRequest);
+  getRayRequestRef.current = getRayRequest;
+
+  // Replace the geodesic lines with the worker's latest trace, or remove them when there is none
+  const drawGeodesics = useCallback(
+    (traced: TracedRay[] | null) => {
+      // Remove old geodesics; they are rebuilt every simulation frame, so free their GPU buffers too
       for (const line of geodesicsRef.current) {
-        sceneRef.current.remove(line);
+        sceneRef.current?.remove(line);
+        line.geometry.dispose();
+        (line.material as THREE.Material).dispose();
       }
-    }
-    geodesicsRef.current = [];
+      geodesicsRef.current = [];
+
+      const scene = sceneRef.current;
+      if (!traced || !scene) return;
+
+      publishRayReports(
+        traced.flatMap(({ path, color }) =>
+          "captured" in path ? [{ captured: path.captured, deflection: path.deflection, color }] : [],
+        ),
+      );
+
+      for (const { path, color } of traced) {
+        if (path.points.length > 1) {
+          const points = path.points.map((p) => new THREE.Vector3(p.x, 0, p.z));
+          const geom = new THREE.BufferGeometry().setFromPoints(points);
+          const captured = "captured" in path && path.captured;
+          const mat = new THREE.LineBasicMaterial({
+            color: captured ? 0xff6b6b : color,
+            transparent: true,
+            opacity: 0.9,
+          });
+          const line = new THREE.Line(geom, mat);
+          line.renderOrder = 2; // above heatmap
+          scene.add(line);
+          geodesicsRef.current.push(line);
+        }
+      }
+    },
+    [publishRayReports],
+  );
 
+  // Redraw the light source handles: an origin disk, a heading arrow and, for beams, the beam's width
+  const syncEmitterHandles = useCallback(() => {
+    const group = emitterGroupRef.current;
+    if (!group) return;
+    for (const child of [...group.children]) {
+      group.remove(child);
+      child.traverse((node) => {
+        if (node instanceof THREE.Mesh || node instanceof THREE.Line) {
+          node.geometry.dispose();
+          (node.material as THREE.Material).dispose();
+        }
+      });
+    }
+    emitterHandlesRef.current.clear();
+    group.visible = showGeodesics;
     if (!showGeodesics) return;
-    if (!sceneRef.current) return;
-    if (!fieldRef.current) return;
 
-    const { values, nx, nz, minX, maxX, minZ, maxZ } = fieldRef.current;
+    for (const emitter of getEffectiveEmitters()) {
+      const color = new THREE.Color(emitter.color);
+      const origin = new THREE.Vector3(emitter.origin.x, 0.05, emitter.origin.z);
+      const heading = new THREE.Vector3(Math.cos(emitter.direction), 0, Math.sin(emitter.direction));
+      const selected = emitter._id === selectedEmitterId;
+
+      const handle = new THREE.Mesh(new THREE.SphereGeometry(selected ? 0.28 : 0.2, 16, 16), new THREE.MeshBasicMaterial({ color }));
+      handle.position.copy(origin);
+      group.add(handle);
+      emitterHandlesRef.current.set(handle, { id: emitter._id, part: "origin" });
+
+      const tipPosition = origin.clone().addScaledVector(heading, EMITTER_ARROW_LENGTH);
+      const shaft = new THREE.Line(
+        new THREE.BufferGeometry().setFromPoints([origin, tipPosition]),
+        new THREE.LineBasicMaterial({ color }),
+      );
+      group.add(shaft);
+
+      const tip = new THREE.Mesh(new THREE.ConeGeometry(0.15, 0.4, 12), new THREE.MeshBasicMaterial({ color }));
+      tip.position.copy(tipPosition);
+      tip.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), heading);
+      group.add(tip);
+      emitterHandlesRef.current.set(tip, { id: emitter._id, part: "direction" });
+
+      if (emitter.kind === "parallel") {
+        const across = new THREE.Vector3(-heading.z, 0, heading.x).multiplyScalar(emitter.spread / 2);
+        const width = new THREE.Line(
+          new THREE.BufferGeometry().setFromPoints([origin.clone().sub(across), origin.clone().add(across)]),
+          new THREE.LineBasicMaterial({ color, transparent: true, opacity: 0.6 }),
+        );
+        group.add(width);
+      }
+    }
+  }, [showGeodesics, getEffectiveEmitters, selectedEmitterId]);
 
-    // Bilinear sampling of potential
-    const samplePotential = (x: number, z: number) => {
-      const u = (x - minX) / (maxX - minX) * (nx - 1);
-      const v = (z - minZ) / (maxZ - minZ) * (nz - 1);
-      const iu = Math.max(0, Math.min(nx - 2, Math.floor(u)));
-      const iv = Math.max(0, Math.min(nz - 2, Math.floor(v)));
-      const fu = u - iu;
-      const fv = v - iv;
+  useEffect(() => {
+    syncEmitterHandles();
+  }, [syncEmitterHandles]);
 
-      const idx = (ii: number, jj: number) => jj * nx + ii;
+  // Redraw trajectories, shaded from blue (slowest) to red (fastest) across all of them when coloring by speed
+  useEffect(() => {
+    const group = trajectoryGroupRef.current;
+    if (!group) return;
+    for (const child of [...group.children]) {
+      group.remove(child);
+      if (child instanceof THREE.Line) {
+        child.geometry.dispose();
+        (child.material as THREE.Material).dispose();
+      }
+    }
 
-      const v00 = values[idx(iu, iv)];
-      const v10 = values[idx(iu + 1, iv)];
-      const v01 = values[idx(iu, iv + 1)];
-      const v11 = values[idx(iu + 1, iv + 1)];
+    const fastest = Math.max(0, ...trajectories.map((t) => t.maxSpeed)) || 1;
+    const color = new THREE.Color();
+    for (const trajectory of trajectories) {
+      if (trajectory.points.length < 2) continue;
+      const geometry = new THREE.BufferGeometry().setFromPoints(
+        trajectory.points.map((p) => new THREE.Vector3(p.x, 0.02, p.z)),
+      );
+      let material: THREE.LineBasicMaterial;
+      if (colorBySpeed) {
+        const colors = new Float32Array(trajectory.points.length * 3);
+        trajectory.points.forEach((p, i) => {
+          color.setHSL((2 / 3) * (1 - Math.min(p.speed / fastest, 1)), 0.9, 0.6);
+          colors.set([color.r, color.g, color.b], i * 3);
+        });
+        geometry.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+        material = new THREE.LineBasicMaterial({ vertexColors: true });
+      } else {
+        material = new THREE.LineBasicMaterial({ color: trajectory.color });
+      }
+      const line = new THREE.Line(geometry, material);
+      line.renderOrder = 2;
+      group.add(line);
+    }
+  }, [trajectories, colorBySpeed]);
 
-      const v0 = v00 * (1 - fu) + v10 * fu;
-      const v1 = v01 * (1 - fu) + v11 * fu;
-      return v0 * (1 - fv) + v1 * fv;
-    };
+  // Publish the clocks' readouts; the hands themselves turn every frame
+  const publishClocks = useCallback(() => {
+    lastClockPublishRef.current = performance.now();
+    setClocks(clocksRef.current.map((clock) => ({ ...clock })));
+  }, []);
 
-    // Numerical gradient via central differences
-    const grad = (x: number, z: number) => {
-      const eps = Math.max((maxX - minX) / (nx - 1), (maxZ - minZ) / (nz - 1)) * 0.75;
-      const dVdx = (samplePotential(x + eps, z) - samplePotential(x - eps, z)) / (2 * eps);
-      const dVdz = (samplePotential(x, z + eps) - samplePotential(x, z - eps)) / (2 * eps);
-      return new THREE.Vector2(dVdx, dVdz);
-    };
+  const placeClock = useCallback(
+    (point: Vec2) => {
+      const clock = createClockProbe(nextClockIdRef.current++, point.x, point.z, getEffectiveObjects());
+      clocksRef.current = [...clocksRef.current.slice(-(MAX_CLOCKS - 1)), clock];
+      publishClocks();
+    },
+    [getEffectiveObjects, publishClocks],
+  );
 
-    // Trace a handful of rays across the sheet
-    const startX = minX;
-    const rayCount: number = 8;
-    const stepCount = 140;
-    const stepSize = (maxX - minX) / 60;
-    const bendStrength = 0.04; // how strongly rays bend toward gradient
+  const removeClock = useCallback(
+    (id: number) => {
+      clocksRef.current = clocksRef.current.filter((clock) => clock.id !== id);
+      publishClocks();
+    },
+    [publishClocks],
+  );
 
-    for (let r = 0; r < rayCount; r++) {
-      const t = rayCount === 1 ? 0.5 : r / (rayCount - 1);
-      const startZ = minZ * (1 - t) + maxZ * t;
+  const synchronizeClocks = useCallback(() => {
+    for (const clock of clocksRef.current) {
+      clock.properTime = 0;
+      clock.coordinateTime = 0;
+    }
+    publishClocks();
+  }, [publishClocks]);
+
+  const clearClocks = useCallback(() => {
+    clocksRef.current = [];
+    publishClocks();
+  }, [publishClocks]);
+
+  onClockFrameRef.current = (seconds: number) => {
+    const probes = clocksRef.current;
+    if (probes.length === 0) return;
+    const bodies = getEffectiveObjects();
+    for (const clock of probes) {
+      advanceClock(clock, bodies, seconds);
+      const meshes = clockMeshesRef.current.get(clock.id);
+      if (meshes) {
+        meshes.hand.rotation.y = -(clock.properTime / CLOCK_HAND_PERIOD) * Math.PI * 2;
+        heatColor(dilationHeat(clock.rate), meshes.face.material.color);
+      }
+    }
+    if (performance.now() - lastClockPublishRef.current >= CLOCK_PUBLISH_INTERVAL) publishClocks();
+  };
 
-      // Initial direction along +X
-      let dir = new THREE.Vector2(1, 0).normalize();
-      let x = startX;
-      let z = startZ;
+  // Build a face and a hand per clock, lying flat just above the sheet
+  const clockIds = clocks.map((clock) => clock.id).join(",");
+  useEffect(() => {
+    const group = clockGroupRef.current;
+    if (!group) return;
+    const meshes = clockMeshesRef.current;
+    const live = new Set(clocksRef.current.map((clock) => clock.id));
+
+    for (const [id, { face, hand }] of meshes) {
+      if (live.has(id)) continue;
+      group.remove(face, hand);
+      face.geometry.dispose();
+      face.material.dispose();
+      hand.traverse((child) => {
+        if (child instanceof THREE.Mesh) {
+          child.geometry.dispose();
+          child.material.dispose();
+        }
+      });
+      meshes.delete(id);
+    }
 
-      const points: THREE.Vector3[] = [];
-      points.push(new THREE.Vector3(x, 0, z));
+    for (const clock of clocksRef.current) {
+      if (meshes.has(clock.id)) continue;
+      const face = new THREE.Mesh(
+        new THREE.RingGeometry(0.22, 0.3, 32),
+        new THREE.MeshBasicMaterial({ color: heatColor(dilationHeat(clock.rate)), side: THREE.DoubleSide }),
+      );
+      face.rotation.x = -Math.PI / 2;
+      face.position.set(clock.x, 0.05, clock.z);
+      face.renderOrder = 3;
+
+      // The hand points along +x at τ = 0 and turns clockwise seen from above
+      const hand = new THREE.Object3D();
+      const needle = new THREE.Mesh(
+        new THREE.BoxGeometry(0.24, 0.01, 0.03),
+        new THREE.MeshBasicMaterial({ color: 0xffffff }),
+      );
+      needle.position.x = 0.12;
+      hand.add(needle);
+      hand.position.set(clock.x, 0.06, clock.z);
+      hand.renderOrder = 3;
+
+      group.add(face, hand);
+      meshes.set(clock.id, { face, hand });
+    }
+  }, [clockIds]);
 
-      for (let i = 0; i < stepCount; i++) {
-        // Bend slightly in the -grad direction (geodesic/light bending heuristic)
-        const g = grad(x, z);
-        // Attractive bending toward higher curvature magnitude; use -grad
-        dir = new THREE.Vector2(dir.x, dir.y)
-          .addScaledVector(g.multiplyScalar(-1), bendStrength)
-          .normalize();
+  // Color the heatmap by clock rate rather than potential while the overlay is on
+  useEffect(() => {
+    const uniforms = curvatureUniformsRef.current;
+    if (uniforms) setHeatmapMode(uniforms, showDilation ? "clockRate" : "potential");
+  }, [showDilation]);
 
-        x += dir.x * stepSize;
-        z += dir.y * stepSize;
+  const handlePlaceClocksChange = useCallback((value: boolean) => {
+    setPlaceClocks(value);
+    if (value) setLaunchOnClick(false);
+  }, []);
 
-        // Stop if out of bounds
-        if (x < minX || x > maxX || z < minZ || z > maxZ) break;
+  const handleLaunchOnClickChange = useCallback((value: boolean) => {
+    setLaunchOnClick(value);
+    if (value) setPlaceClocks(false);
+  }, []);
 
-        points.push(new THREE.Vector3(x, 0, z));
-      }
+  const launchTestParticle = useCallback(
+    (start: Vec2) => {
+      const field = fieldRef.current;
+      if (!field) return;
+      const trajectory = traceTestParticle(fieldBodiesRef.current, field, start, launchVelocity, field, {
+        model: trajectoryModel,
+      });
+      const id = nextTrajectoryIdRef.current++;
+      setTrajectories((current) => [
+        ...current.slice(-(MAX_TRAJECTORIES - 1)),
+        { ...trajectory, id, model: trajectoryModel, color: TRAJECTORY_COLORS[id % TRAJECTORY_COLORS.length] },
+      ]);
+    },
+    [launchVelocity, trajectoryModel],
+  );
 
-      if (points.length > 1) {
-        const geom = new THREE.BufferGeometry().setFromPoints(points);
-        const mat = new THREE.LineBasicMaterial({
-          color: 0xffe27a,
-          transparent: true,
-          opacity: 0.9,
-        });
-        const line = new THREE.Line(geom, mat);
-        line.renderOrder = 2; // above heatmap
-        sceneRef.current.add(line);
-        geodesicsRef.current.push(line);
-      }
+  // Drop the selection when the source goes away, e.g. deleted by a collaborator
+  useEffect(() => {
+    if (selectedEmitterId && !emitters.some((e) => e._id === selectedEmitterId)) {
+      setSelectedEmitterId(null);
     }
-  }, [showGeodesics]);
+  }, [emitters, selectedEmitterId]);
 
   // Update objects in scene
   useEffect(() => {
@@ -410,8 +1120,8 @@ export default function SpacetimeVisualizer() {
     });
     objectsRef.current.clear();
 
-    // Add current objects
-    objects.forEach((obj) => {
+    // Add current objects, at their simulated positions while a simulation is running
+    getEffectiveObjects().forEach((obj) => {
       const objectType = OBJECT_TYPES[obj.type as keyof typeof OBJECT_TYPES];
       if (!objectType) return;
 
@@ -473,152 +1183,453 @@ export default function SpacetimeVisualizer() {
   useEffect(() => {
     if (!selectedObject) return;
     const updated = objects.find((o) => o._id === selectedObject._id);
-    if (updated) setSelectedObject(updated);
+    setSelectedObject(updated ?? null);
   }, [objects, selectedObject?._id]);
 
-  const updateGridCurvature = useCallback(() => {
-    if (!gridRef.current || !basePositionsRef.current) return;
-
-    const geometry = gridRef.current.geometry;
-    const positions = geometry.attributes.position as THREE.BufferAttribute;
-
-    // Use the selected object's latest mass optimistically for curvature calculations
-    const effectiveObjects = selectedObject
-      ? objects.map((o) => (o._id === selectedObject._id ? { ...o, mass: selectedObject.mass } : o))
-      : objects;
+  // Halo around the selected body; parented to its mesh so it follows drags and the simulation
+  const selectedId = selectedObject?._id;
+  const selectedType = selectedObject?.type;
+  useEffect(() => {
+    if (!selectedId || !selectedType) return;
+    const mesh = objectsRef.current.get(selectedId);
+    if (!mesh) return;
+
+    const size = objectSize(selectedType);
+    const halo = new THREE.Mesh(
+      new THREE.SphereGeometry(size * 1.35, 32, 32),
+      new THREE.MeshBasicMaterial({ color: 0xffffff, side: THREE.BackSide, transparent: true, opacity: 0.45 }),
+    );
+    const ring = new THREE.Mesh(
+      new THREE.TorusGeometry(size * 1.8, 0.03, 8, 64),
+      new THREE.MeshBasicMaterial({ color: 0xffffff }),
+    );
+    ring.rotation.x = Math.PI / 2;
+    mesh.add(halo, ring);
 
-    // Reset to base plane for X,Z reference (we don't directly set Y; we animate towards targets)
-    const base = basePositionsRef.current;
-    for (let i = 0; i < positions.count; i++) {
-      positions.setX(i, base[i * 3 + 0]);
-      positions.setZ(i, base[i * 3 + 2]);
-    }
+    return () => {
+      mesh.remove(halo, ring);
+      for (const part of [halo, ring]) {
+        part.geometry.dispose();
+        part.material.dispose();
+      }
+    };
+  }, [selectedId, selectedType, objects]);
+
+  // Hand the worker's result to the shaders, together with the bodies it was computed for
+  const applyCurvature = useCallback(
+    ({ field, mean, maxAbs, axes, rays }: CurvatureResult, { bodies }: CurvatureRequest, { transition }: CurvatureRequestOptions) => {
+      const uniforms = curvatureUniformsRef.current;
+      if (!uniforms) return;
+
+      // The server caps scenes below the shader's capacity; say so rather than draw a partial sheet
+      if (bodies.length > MAX_SHADER_BODIES) {
+        toast.error(`The sheet can show at most ${MAX_SHADER_BODIES} bodies; this scene has ${bodies.length}`, {
+          id: "shader-capacity",
+        });
+        return;
+      }
+      setCurvatureTarget(uniforms, bodies, mean, maxAbs, transition);
+      // Layouts for a previous resolution are rejected by the vertex count check
+      if (axes && adaptiveGridRef.current && gridRef.current) {
+        layoutGridGeometry(gridRef.current.geometry, axes.xs, axes.zs);
+      }
+      blendStartRef.current = performance.now();
 
-    // Physics-inspired curvature using weak-field potential without far-field clamping.
-    const K = 0.4;     // curvature visualization scale
-    const k_rs = 0.05; // visual "Schwarzschild radius" scale
+      // Update sampling field for geodesics
+      fieldRef.current = field;
+      fieldBodiesRef.current = bodies;
 
-    // First pass: compute displacements and accumulate mean to zero-center the sheet
-    const disps = new Float32Array(positions.count);
-    let sumDisp = 0;
+      // Geodesics were retraced through the new field
+      drawGeodesics(rays);
+    },
+    [drawGeodesics],
+  );
 
-    for (let i = 0; i < positions.count; i++) {
-      const x = positions.getX(i);
-      const z = positions.getZ(i);
+  const requestCurvature = useCurvatureWorker(applyCurvature);
+
+  // Physics-inspired curvature using weak-field potential without far-field clamping.
+  // The coarse field is computed off the main thread; the sheet itself is displaced on the GPU.
+  const updateGridCurvature = useCallback(
+    (transition = true) => {
+      requestCurvature(
+        getEffectiveObjects(),
+        {
+          halfExtent: gridExtentRef.current,
+          divisions: Math.min(gridDivisionsRef.current, MAX_FIELD_DIVISIONS),
+        },
+        {
+          transition,
+          lodDivisions: adaptiveGridRef.current ? gridDivisionsRef.current : null,
+          openingAngle: openingAngleRef.current,
+          rays: getRayRequestRef.current(),
+        },
+      );
+    },
+    [getEffectiveObjects, requestCurvature],
+  );
 
-      let disp = 0;
+  // Follow settings saved by this or another client
+  useEffect(() => {
+    setGridSettings({ extent: savedExtent, divisions: savedDivisions });
+  }, [savedExtent, savedDivisions]);
 
-      for (const obj of effectiveObjects) {
-        const dx = x - obj.position.x;
-        const dz = z - obj.position.z;
-        const r = Math.hypot(dx, dz);
+  // Swap in a new sheet when the extent or resolution changes; the sampling field follows on the next request
+  useEffect(() => {
+    const grid = gridRef.current;
+    const heatmap = heatmapRef.current;
+    if (!grid || !heatmap) return;
+    if (gridExtentRef.current === gridSettings.extent && gridDivisionsRef.current === gridSettings.divisions) return;
+
+    const previous = grid.geometry;
+    const geometry = createGridGeometry(gridSettings);
+    grid.geometry = geometry;
+    heatmap.geometry = geometry;
+    previous.dispose();
+
+    gridExtentRef.current = gridSettings.extent;
+    gridDivisionsRef.current = gridSettings.divisions;
+    const uniforms = curvatureUniformsRef.current;
+    if (uniforms) setEmbeddingReach(uniforms, gridSettings.extent);
+    updateGridCurvature(false);
+  }, [gridSettings, updateGridCurvature]);
 
-        const mass = Math.max(0.000001, obj.mass);
-        const r_s = k_rs * mass; // avoid singularities
-        const effectiveR = Math.max(r, r_s);
+  useEffect(() => {
+    if (starfieldRef.current) starfieldRef.current.visible = showStarfield;
+  }, [showStarfield]);
 
-        disp += mass * (1 / effectiveR);
-      }
+  useEffect(() => {
+    sheetShapeRef.current = sheetShape;
+  }, [sheetShape]);
 
-      disps[i] = disp;
-      sumDisp += disp;
+  // Refine the sheet around steep wells, or put the vertices back on a regular lattice
+  useEffect(() => {
+    const grid = gridRef.current;
+    if (!grid || adaptiveGridRef.current === adaptiveGrid) return;
+    adaptiveGridRef.current = adaptiveGrid;
+    if (adaptiveGrid) {
+      updateGridCurvature(false);
+    } else {
+      const axis = uniformAxis(gridExtentRef.current, gridDivisionsRef.current);
+      layoutGridGeometry(grid.geometry, axis, axis);
     }
+  }, [adaptiveGrid, updateGridCurvature]);
 
-    const meanDisp = sumDisp / Math.max(1, positions.count);
+  // Trade accuracy of the field for speed in large scenes
+  useEffect(() => {
+    if (openingAngleRef.current === openingAngle) return;
+    openingAngleRef.current = openingAngle;
+    updateGridCurvature(false);
+  }, [openingAngle, updateGridCurvature]);
 
-    // Ensure color attribute exists
-    if (!geometry.getAttribute("color")) {
-      const colors = new Float32Array(positions.count * 3);
-      geometry.setAttribute("color", new THREE.Float32BufferAttribute(colors, 3));
-    }
-    const colors = geometry.getAttribute("color") as THREE.BufferAttribute;
-    const color = new THREE.Color();
+  const gridSettingsTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-    // Compute curvature magnitude range for heatmap normalization
-    let maxAbs = 0;
-    for (let i = 0; i < positions.count; i++) {
-      const centered = disps[i] - meanDisp;
-      if (Math.abs(centered) > maxAbs) maxAbs = Math.abs(centered);
-    }
-    const invMax = maxAbs > 1e-6 ? 1 / maxAbs : 0;
+  const handleGridSettingsChange = useCallback(
+    (patch: Partial<GridSettings>) => {
+      const next = clampGridSettings({ ...gridSettings, ...patch });
+      setGridSettings(next);
+      if (!sceneId) return;
 
-    // Prepare/resize Y targets if needed
-    if (!targetYRef.current || targetYRef.current.length !== positions.count) {
-      targetYRef.current = new Float32Array(positions.count);
-    }
-    const targetY = targetYRef.current;
-
-    // Set target positions and update colors immediately (no per-frame color lerp for performance)
-    for (let i = 0; i < positions.count; i++) {
-      const baseY = base[i * 3 + 1];
-      const centered = disps[i] - meanDisp;
-      const newY = baseY - K * centered;
-      targetY[i] = newY;
-
-      // Heatmap color (blue->cyan->yellow->red)
-      const t = Math.min(Math.max(Math.abs(centered) * invMax, 0), 1);
-      const hue = (220 - 210 * t) / 360;
-      const sat = 0.85;
-      const lum = 0.55 - 0.1 * t;
-      color.setHSL(hue, sat, lum);
-      colors.setX(i, color.r);
-      colors.setY(i, color.g);
-      colors.setZ(i, color.b);
-    }
+      if (gridSettingsTimerRef.current) clearTimeout(gridSettingsTimerRef.current);
+      gridSettingsTimerRef.current = setTimeout(async () => {
+        try {
+          await updateSceneSettings({ sceneId, settings: next });
+        } catch {
+          toast.error("Failed to save grid settings");
+        }
+      }, 300);
+    },
+    [gridSettings, sceneId, updateSceneSettings],
+  );
 
-    // Ensure updates are applied
-    colors.needsUpdate = true;
-    positions.needsUpdate = true;
-    geometry.computeBoundingSphere();
-
-    // Update sampling field for geodesics
-    const gridSize = gridExtentRef.current; // half extent
-    const divisions = gridDivisionsRef.current;
-    const nx = divisions + 1;
-    const nz = divisions + 1;
-    // Store centered potential (pre-scaling)
-    const fieldValues = new Float32Array(positions.count);
-    for (let i = 0; i < positions.count; i++) {
-      fieldValues[i] = disps[i] - meanDisp;
+  // Move meshes to their simulated (or stored, after a reset) positions and rebuild curvature.
+  // Per-frame updates jump straight to the new state; only discrete changes ease across.
+  const syncSimulatedBodies = useCallback((transition = false) => {
+    const effective = new Map(getEffectiveObjects().map((o) => [o._id, o]));
+    for (const obj of objects) {
+      const position = effective.get(obj._id)?.position;
+      for (const key of [obj._id, `${obj._id}:disk`]) {
+        const mesh = objectsRef.current.get(key);
+        if (!mesh) continue;
+        // Bodies merged away stay hidden until the server removes them
+        mesh.visible = !!position;
+        if (position) mesh.position.set(position.x, position.y, position.z);
+      }
     }
-    fieldRef.current = {
-      values: fieldValues,
-      nx,
-      nz,
-      minX: -gridSize,
-      maxX: gridSize,
-      minZ: -gridSize,
-      maxZ: gridSize,
-    };
-
-    // Rebuild geodesics whenever curvature changes
-    recomputeGeodesics();
-  }, [objects, selectedObject?._id, selectedObject?.mass, recomputeGeodesics]);
+    updateGridCurvature(transition);
+  }, [objects, getEffectiveObjects, updateGridCurvature]);
+  onSimulationFrameRef.current = syncSimulatedBodies;
+
+  const handleSimulationStep = useCallback(() => {
+    simulation.step();
+    syncSimulatedBodies();
+  }, [simulation, syncSimulatedBodies]);
+
+  const handleSimulationReset = useCallback(() => {
+    simulation.reset();
+    precessionTrackerRef.current = null;
+    setPrecession(null);
+    inspiralRef.current = null;
+    setInspiral(null);
+    syncSimulatedBodies(true);
+  }, [simulation, syncSimulatedBodies]);
 
   // Debounce timer for mass updates
   const massUpdateTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  const handleCanvasClick = useCallback(async (event: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!canvasRef.current || !cameraRef.current) return;
+  const raycasterAt = useCallback((clientX: number, clientY: number) => {
+    if (!canvasRef.current || !cameraRef.current) return null;
 
     const rect = canvasRef.current.getBoundingClientRect();
     const mouse = new THREE.Vector2(
-      ((event.clientX - rect.left) / rect.width) * 2 - 1,
-      -((event.clientY - rect.top) / rect.height) * 2 + 1
+      ((clientX - rect.left) / rect.width) * 2 - 1,
+      -((clientY - rect.top) / rect.height) * 2 + 1
     );
 
     const raycaster = new THREE.Raycaster();
     raycaster.setFromCamera(mouse, cameraRef.current);
+    return raycaster;
+  }, []);
+
+  // Point on the y=0 plane under the pointer, or null when the ray misses it
+  const groundPointAt = useCallback(
+    (clientX: number, clientY: number) => {
+      const raycaster = raycasterAt(clientX, clientY);
+      if (!raycaster) return null;
+
+      // Create invisible plane at y=0 for object placement
+      const plane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+      return raycaster.ray.intersectPlane(plane, new THREE.Vector3());
+    },
+    [raycasterAt],
+  );
+
+  // Id of the nearest object mesh (or black hole disk) under the pointer
+  const pickObjectAt = useCallback(
+    (clientX: number, clientY: number) => {
+      const raycaster = raycasterAt(clientX, clientY);
+      if (!raycaster) return null;
+
+      const meshes = [...objectsRef.current.values()].filter((mesh) => mesh.visible);
+      const hit = raycaster.intersectObjects(meshes, false)[0];
+      if (!hit) return null;
+      for (const [key, mesh] of objectsRef.current) {
+        if (mesh === hit.object) return key.split(":")[0] as Id<"spaceObjects">;
+      }
+      return null;
+    },
+    [raycasterAt],
+  );
+
+  // Light source handle under the pointer, if any
+  const pickEmitterHandleAt = useCallback(
+    (clientX: number, clientY: number) => {
+      const raycaster = raycasterAt(clientX, clientY);
+      if (!raycaster || !emitterGroupRef.current?.visible) return null;
+
+      const hit = raycaster.intersectObjects([...emitterHandlesRef.current.keys()], false)[0];
+      return hit ? (emitterHandlesRef.current.get(hit.object) ?? null) : null;
+    },
+    [raycasterAt],
+  );
 
-    // Create invisible plane at y=0 for object placement
-    const plane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
-    const intersectPoint = new THREE.Vector3();
-    raycaster.ray.intersectPlane(plane, intersectPoint);
+  const emitterUpdateTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Shows a light source edit immediately and persists it with a debounce
+  const handleEmitterChange = useCallback(
+    (id: string, patch: Partial<RayEmitterFields>) => {
+      const pending = { ...pendingEmittersRef.current.get(id), ...patch };
+      pendingEmittersRef.current.set(id, pending);
+      setEmitterEditVersion((n) => n + 1);
+      syncEmitterHandles();
+      updateGridCurvature(false);
+
+      if (emitterUpdateTimerRef.current) clearTimeout(emitterUpdateTimerRef.current);
+      emitterUpdateTimerRef.current = setTimeout(async () => {
+        try {
+          await updateEmitter({ emitterId: id as Id<"rayEmitters">, ...pending });
+        } catch (error) {
+          toast.error(error instanceof Error ? error.message : "Failed to update light source");
+        } finally {
+          // Keep edits made while this one was in flight
+          if (pendingEmittersRef.current.get(id) === pending) {
+            pendingEmittersRef.current.delete(id);
+          }
+        }
+      }, 120);
+    },
+    [syncEmitterHandles, updateGridCurvature, updateEmitter],
+  );
+
+  const handleCreateEmitter = useCallback(
+    async (kind: RayEmitterKind) => {
+      if (!sceneId) return;
+      try {
+        const emitterId = await createEmitter({ sceneId, ...defaultRayEmitter(kind, gridSettings.extent) });
+        setSelectedEmitterId(emitterId);
+        setShowGeodesics(true);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "Failed to add light source");
+      }
+    },
+    [sceneId, createEmitter, gridSettings.extent],
+  );
+
+  const handleDeleteEmitter = useCallback(
+    async (id: string) => {
+      try {
+        await deleteEmitter({ emitterId: id as Id<"rayEmitters"> });
+        pendingEmittersRef.current.delete(id);
+      } catch {
+        toast.error("Failed to delete light source");
+      }
+    },
+    [deleteEmitter],
+  );
+
+  writePositionRef.current = async (id, position) => {
+    const original = objects.find((o) => o._id === id);
+    try {
+      await updateObjectPosition({ objectId: id as Id<"spaceObjects">, position });
+      if (original) {
+        const before = toObjectFields(original);
+        recordChange(
+          "move",
+          [{ id: original._id, fields: before }],
+          [{ id: original._id, fields: { ...before, position } }],
+          `position:${original._id}`,
+        );
+      }
+    } catch {
+      toast.error("Failed to move object");
+    }
+  };
+
+  objectDragHandlersRef.current = {
+    begin: (event) => {
+      if (!canEdit || event.button !== 0 || event.shiftKey || event.altKey) return false;
+      const point = groundPointAt(event.clientX, event.clientY);
+
+      // Light source handles sit above the sheet and take precedence over bodies
+      const handle = pickEmitterHandleAt(event.clientX, event.clientY);
+      const emitter = handle && getEffectiveEmitters().find((e) => e._id === handle.id);
+      if (handle && emitter && point) {
+        emitterDragRef.current = {
+          id: emitter._id,
+          part: handle.part,
+          offset: { x: emitter.origin.x - point.x, z: emitter.origin.z - point.z },
+          moved: false,
+        };
+        setSelectedEmitterId(emitter._id);
+        return true;
+      }
+
+      const id = pickObjectAt(event.clientX, event.clientY);
+      const object = id && getEffectiveObjects().find((o) => o._id === id);
+      if (!object || !point) return false;
+
+      objectDragRef.current = {
+        id: object._id,
+        offset: { x: object.position.x - point.x, z: object.position.z - point.z },
+        moved: false,
+      };
+      return true;
+    },
+    move: (event) => {
+      const emitterDrag = emitterDragRef.current;
+      if (emitterDrag) {
+        const point = groundPointAt(event.clientX, event.clientY);
+        const emitter = getEffectiveEmitters().find((e) => e._id === emitterDrag.id);
+        if (!point || !emitter) return true;
+
+        emitterDrag.moved = true;
+        if (emitterDrag.part === "origin") {
+          handleEmitterChange(emitterDrag.id, {
+            origin: { x: point.x + emitterDrag.offset.x, z: point.z + emitterDrag.offset.z },
+          });
+        } else {
+          handleEmitterChange(emitterDrag.id, {
+            direction: Math.atan2(point.z - emitter.origin.z, point.x - emitter.origin.x),
+          });
+        }
+        return true;
+      }
+
+      const drag = objectDragRef.current;
+      if (!drag) return false;
+      const point = groundPointAt(event.clientX, event.clientY);
+      if (!point) return true;
+
+      const position = { x: point.x + drag.offset.x, y: 0, z: point.z + drag.offset.z };
+      drag.moved = true;
+      // Shown at once and written once the pointer rests
+      pendingPositions.move(drag.id, position);
+      // Carry a running simulation along so the body continues from where it was dropped
+      const body = simulation.stateRef.current?.bodies.find((b) => b.id === drag.id);
+      if (body) body.position = { ...position };
+
+      // Move meshes and recompute curvature live with the optimistic position
+      syncSimulatedBodies();
+      return true;
+    },
+    end: () => {
+      const emitterDrag = emitterDragRef.current;
+      if (emitterDrag) {
+        emitterDragRef.current = null;
+        suppressClickRef.current = emitterDrag.moved;
+        return true;
+      }
+
+      const drag = objectDragRef.current;
+      if (!drag) return false;
+      objectDragRef.current = null;
+      suppressClickRef.current = drag.moved;
+      // Send the last position now; the server's takes over once it lands
+      pendingPositions.release(drag.id);
+      return true;
+    },
+  };
+
+  const handleCanvasClick = useCallback(async (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
 
+    // In launch mode a click fires a test particle instead; anyone can, the overlay is local
+    if (launchOnClick && !event.altKey) {
+      const point = groundPointAt(event.clientX, event.clientY);
+      if (point) launchTestParticle({ x: point.x, z: point.z });
+      return;
+    }
+    if (placeClocks && !event.altKey) {
+      const point = groundPointAt(event.clientX, event.clientY);
+      if (point) placeClock({ x: point.x, z: point.z });
+      return;
+    }
+
+    // Clicking a body or light source selects it; Alt+click places a new body regardless
+    if (!event.altKey) {
+      const handle = pickEmitterHandleAt(event.clientX, event.clientY);
+      if (handle) {
+        setSelectedEmitterId(handle.id);
+        return;
+      }
+      const pickedId = pickObjectAt(event.clientX, event.clientY);
+      if (pickedId) {
+        setSelectedObject(objects.find((o) => o._id === pickedId) ?? null);
+        return;
+      }
+    }
+    if (!canEdit || !sceneId) {
+      setSelectedObject(null);
+      return;
+    }
+
+    const intersectPoint = groundPointAt(event.clientX, event.clientY);
     if (intersectPoint) {
       try {
         const objectType = OBJECT_TYPES[selectedObjectType];
-        await createObject({
+        const fields = {
           type: selectedObjectType,
           mass: objectType.mass,
           position: {
@@ -627,13 +1638,107 @@ export default function SpacetimeVisualizer() {
             z: intersectPoint.z,
           },
           name: `${selectedObjectType} ${objects.length + 1}`,
-        });
+        };
+        const objectId = await createObject({ sceneId, ...fields });
+        recordChange(`place ${selectedObjectType}`, [{ id: objectId, fields: null }], [{ id: objectId, fields }]);
         toast.success(`${selectedObjectType} placed successfully`);
       } catch (error) {
         toast.error("Failed to place object");
       }
     }
-  }, [selectedObjectType, createObject, objects.length]);
+  }, [selectedObjectType, createObject, objects, sceneId, canEdit, groundPointAt, pickObjectAt, pickEmitterHandleAt, recordChange, launchOnClick, launchTestParticle, placeClocks, placeClock]);
+
+  const handleCanvasPointerMove = useCallback(
+    (event: React.MouseEvent<HTMLCanvasElement>) => {
+      const point = groundPointAt(event.clientX, event.clientY);
+      publishPresence({ cursor: point ? { x: point.x, z: point.z } : null });
+    },
+    [groundPointAt, publishPresence],
+  );
+
+  const handleCanvasPointerLeave = useCallback(() => {
+    publishPresence({ cursor: null });
+  }, [publishPresence]);
+
+  // Share the selection; re-sent on scene switch since presence rows are per scene
+  useEffect(() => {
+    publishPresence({ selectedObjectId: selectedObject?._id ?? null });
+  }, [selectedObject?._id, sceneId, publishPresence]);
+
+  useEffect(() => {
+    publishPresence({ isPresenting });
+  }, [isPresenting, sceneId, publishPresence]);
+
+  // The camera moves outside React, so poll it and publish only real changes
+  useEffect(() => {
+    if (readOnly || !sceneId) return;
+    let lastKey = "";
+    const interval = setInterval(() => {
+      const { radius, phi, theta } = sphericalRef.current;
+      const { x, y, z } = targetRef.current;
+      const camera = { radius, phi, theta, target: { x, y, z } };
+      const key = [radius, phi, theta, x, y, z].map((n) => n.toFixed(3)).join();
+      if (key === lastKey) return;
+      lastKey = key;
+      publishPresence({ camera });
+    }, 250);
+    return () => clearInterval(interval);
+  }, [readOnly, sceneId, publishPresence]);
+
+  useEffect(() => {
+    followCameraRef.current = followPresenter && presenter?.camera ? presenter.camera : null;
+  }, [followPresenter, presenter?.camera]);
+
+  // Rebuild collaborator markers whenever anyone's presence or the objects change
+  useEffect(() => {
+    const group = presenceGroupRef.current;
+    if (!group) return;
+
+    for (const child of [...group.children]) {
+      group.remove(child);
+      if (child instanceof THREE.Mesh || child instanceof THREE.LineSegments) {
+        child.geometry.dispose();
+        (child.material as THREE.Material).dispose();
+      }
+    }
+
+    for (const participant of collaborators) {
+      const color = new THREE.Color(presenceColor(participant.userId));
+
+      if (participant.cursor) {
+        const ring = new THREE.Mesh(
+          new THREE.RingGeometry(0.25, 0.4, 24),
+          new THREE.MeshBasicMaterial({ color, side: THREE.DoubleSide, depthTest: false }),
+        );
+        ring.rotation.x = -Math.PI / 2;
+        ring.position.set(participant.cursor.x, 0.05, participant.cursor.z);
+        ring.renderOrder = 3;
+        group.add(ring);
+      }
+
+      if (participant.camera) {
+        const { radius, phi, theta, target } = participant.camera;
+        const lookAt = new THREE.Vector3(target.x, target.y, target.z);
+        const frustum = new THREE.LineSegments(createFrustumGeometry(), new THREE.LineBasicMaterial({ color }));
+        frustum.position.setFromSpherical(new THREE.Spherical(radius, phi, theta)).add(lookAt);
+        frustum.scale.setScalar(1.5);
+        frustum.lookAt(lookAt);
+        group.add(frustum);
+      }
+
+      const selectedMesh = participant.selectedObjectId && objectsRef.current.get(participant.selectedObjectId);
+      if (selectedMesh) {
+        const size = OBJECT_TYPES[objects.find((o) => o._id === participant.selectedObjectId)?.type as keyof typeof OBJECT_TYPES]?.size ?? 0.5;
+        const halo = new THREE.Mesh(
+          new THREE.TorusGeometry(size * 2, 0.04, 8, 48),
+          new THREE.MeshBasicMaterial({ color, transparent: true, opacity: 0.9 }),
+        );
+        halo.rotation.x = Math.PI / 2;
+        halo.position.copy(selectedMesh.position);
+        group.add(halo);
+      }
+    }
+  }, [collaborators, objects]);
 
   const handleMassInputChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -654,6 +1759,7 @@ export default function SpacetimeVisualizer() {
       updateGridCurvature();
 
       // Debounce server mutation
+      const original = objects.find((o) => o._id === selectedObject._id);
       if (massUpdateTimerRef.current) clearTimeout(massUpdateTimerRef.current);
       massUpdateTimerRef.current = setTimeout(async () => {
         try {
@@ -661,42 +1767,262 @@ export default function SpacetimeVisualizer() {
             objectId: selectedObject._id,
             mass: nextVal,
           });
+          if (original) {
+            const before = toObjectFields(original);
+            recordChange(
+              "mass change",
+              [{ id: original._id, fields: before }],
+              [{ id: original._id, fields: { ...before, mass: nextVal } }],
+              `mass:${original._id}`,
+            );
+          }
         } catch (error) {
           toast.error("Failed to update mass");
         }
       }, 120);
     },
-    [selectedObject, updateObjectMass, updateGridCurvature],
+    [selectedObject, objects, updateObjectMass, updateGridCurvature, recordChange],
+  );
+
+  // Debounce timer for velocity updates
+  const velocityUpdateTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const persistVelocity = useCallback(
+    (object: SpaceObject, velocity: { x: number; y: number; z: number }) => {
+      setSelectedObject({ ...object, velocity });
+
+      if (velocityUpdateTimerRef.current) clearTimeout(velocityUpdateTimerRef.current);
+      const original = objects.find((o) => o._id === object._id);
+      velocityUpdateTimerRef.current = setTimeout(async () => {
+        try {
+          await updateObjectVelocity({ objectId: object._id, velocity });
+          if (original) {
+            const before = toObjectFields(original);
+            recordChange(
+              "velocity change",
+              [{ id: original._id, fields: before }],
+              [{ id: original._id, fields: { ...before, velocity } }],
+              `velocity:${original._id}`,
+            );
+          }
+        } catch {
+          toast.error("Failed to update velocity");
+        }
+      }, 120);
+    },
+    [objects, updateObjectVelocity, recordChange],
+  );
+
+  // Velocity components are edited as text and parsed on blur or Enter, so partial input such as "-" or "1." survives
+  const [velocityDraft, setVelocityDraft] = useState<Partial<Record<"x" | "z", string>>>({});
+
+  useEffect(() => {
+    setVelocityDraft({});
+  }, [selectedObject?._id]);
+
+  const commitVelocityDraft = useCallback(
+    (axis: "x" | "z") => {
+      const raw = velocityDraft[axis];
+      setVelocityDraft((draft) => {
+        const next = { ...draft };
+        delete next[axis];
+        return next;
+      });
+      if (!selectedObject || raw === undefined) return;
+
+      const nextVal = parseFloat(raw);
+      if (Number.isNaN(nextVal)) return;
+
+      const current = selectedObject.velocity ?? { x: 0, y: 0, z: 0 };
+      persistVelocity(selectedObject, { ...current, [axis]: Math.min(100, Math.max(-100, nextVal)) });
+    },
+    [selectedObject, velocityDraft, persistVelocity],
+  );
+
+  // Give the selected object the velocity of an orbit around the heaviest other object, starting
+  // at periapsis so an eccentric orbit swings out from where the object was placed
+  const handleOrbit = useCallback(
+    (eccentricity: number) => {
+      if (!selectedObject) return;
+
+      const center = objects
+        .filter((o) => o._id !== selectedObject._id)
+        .reduce<SpaceObject | null>((best, o) => (!best || o.mass > best.mass ? o : best), null);
+      if (!center) {
+        toast.error("Place another object to orbit around");
+        return;
+      }
+
+      const velocity = periapsisVelocity(
+        selectedObject,
+        { ...center, velocity: center.velocity ?? { x: 0, y: 0, z: 0 } },
+        eccentricity,
+      );
+      persistVelocity(selectedObject, velocity);
+    },
+    [selectedObject, objects, persistVelocity],
+  );
+
+  // Restores a clear-all from its server snapshot, remapping history to the recreated objects
+  const undoClear = useCallback(
+    async (snapshotId: Id<"sceneSnapshots">) => {
+      const restored = await restoreSnapshot({ snapshotId });
+      for (const { objectId, newId } of restored) {
+        aliasId(objectId, newId);
+      }
+    },
+    [restoreSnapshot, aliasId],
   );
 
   const handleClearAll = useCallback(async () => {
+    if (!sceneId) return;
     try {
-      await clearAllObjects();
+      let snapshotId = await clearAllObjects({ sceneId });
+      recordHistory({
+        label: "clear all",
+        undo: () => undoClear(snapshotId),
+        redo: async () => {
+          snapshotId = await clearAllObjects({ sceneId });
+        },
+      });
       setSelectedObject(null);
+      simulation.reset();
       toast.success("All objects cleared");
     } catch (error) {
       toast.error("Failed to clear objects");
     }
-  }, [clearAllObjects]);
+  }, [clearAllObjects, simulation, sceneId, recordHistory, undoClear]);
+
+  // After a reload the history is empty, but an emptied scene can still get its last clear back
+  const restorableSnapshot = !canUndo && objects.length === 0 ? latestSnapshot : null;
+
+  const handleUndo = useCallback(async () => {
+    try {
+      if (restorableSnapshot) {
+        await undoClear(restorableSnapshot._id);
+        toast.success("Restored cleared objects");
+        return;
+      }
+      const label = await undoHistory();
+      if (label) toast.success(`Undid ${label}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to undo");
+    }
+  }, [undoHistory, restorableSnapshot, undoClear]);
 
-  // Recompute or remove geodesics on toggle
+  const handleRedo = useCallback(async () => {
+    try {
+      const label = await redoHistory();
+      if (label) toast.success(`Redid ${label}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to redo");
+    }
+  }, [redoHistory]);
+
+  // Ctrl+Z undoes, Ctrl+Shift+Z (or Ctrl+Y) redoes, except while typing in a field
   useEffect(() => {
-    if (!sceneRef.current) return;
-    if (!showGeodesics) {
-      // Remove existing lines
-      if (geodesicsRef.current.length) {
-        for (const line of geodesicsRef.current) {
-          sceneRef.current.remove(line);
+    if (!canEdit) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return;
+
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if (key === "y" || (key === "z" && event.shiftKey)) {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [canEdit, handleUndo, handleRedo]);
+
+  const handleDeleteObject = useCallback(
+    async (object: SpaceObject) => {
+      try {
+        await deleteObject({ objectId: object._id });
+        recordChange(
+          `delete ${object.type}`,
+          [{ id: object._id, fields: toObjectFields(object) }],
+          [{ id: object._id, fields: null }],
+        );
+      } catch {
+        toast.error("Failed to delete object");
+      }
+    },
+    [deleteObject, recordChange],
+  );
+
+  const handleExport = useCallback(() => {
+    const { radius, phi, theta } = sphericalRef.current;
+    const { x, y, z } = targetRef.current;
+    const name = readOnly ? sharedScene?.name : scenes?.find((s) => s._id === sceneId)?.name;
+    const json = serializeScene(name, objects, {
+      showGeodesics,
+      camera: { radius, phi, theta, target: { x, y, z } },
+    });
+
+    const url = URL.createObjectURL(new Blob([json], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${(name ?? "scene").replace(/[^\w-]+/g, "_")}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [objects, showGeodesics, readOnly, sharedScene, scenes, sceneId]);
+
+  // Adds the file's objects to the current scene and restores its saved view
+  const handleImportFile = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file || !sceneId) return;
+
+      const parsed = parseSceneFile(await file.text());
+      if (!parsed.success) {
+        toast.error("Invalid scene file", { description: parsed.errors.slice(0, 5).join("\n") });
+        return;
+      }
+
+      try {
+        const ids = await createObjects({ sceneId, objects: parsed.file.objects });
+        recordChange(
+          "import",
+          ids.map((id) => ({ id, fields: null })),
+          ids.map((id, i) => ({ id, fields: parsed.file.objects[i] })),
+        );
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "Failed to import scene");
+        return;
+      }
+
+      const view = parsed.file.view;
+      if (view) {
+        setShowGeodesics(view.showGeodesics);
+        const { radius, phi, theta, target } = view.camera;
+        sphericalRef.current.set(radius, phi, theta);
+        targetRef.current.set(target.x, target.y, target.z);
+        if (cameraRef.current) {
+          cameraRef.current.position.setFromSpherical(sphericalRef.current).add(targetRef.current);
+          cameraRef.current.lookAt(targetRef.current);
         }
-        geodesicsRef.current = [];
       }
-      return;
-    }
-    // Build when toggled on
-    recomputeGeodesics();
-  }, [showGeodesics, recomputeGeodesics]);
+      toast.success(`Imported ${parsed.file.objects.length} objects`);
+    },
+    [createObjects, sceneId, recordChange],
+  );
 
-  if (!user) {
+  // Retrace or remove geodesics when they are toggled or their sources change; tracing happens in the worker.
+  // Object edits request their own curvature, so only a change of ray request triggers this one.
+  const updateGridCurvatureRef = useRef(updateGridCurvature);
+  updateGridCurvatureRef.current = updateGridCurvature;
+  useEffect(() => {
+    updateGridCurvatureRef.current(false);
+  }, [getRayRequest]);
+
+  if (!user && !readOnly) {
     return (
       <div className="flex items-center justify-center h-screen">
         <p className="text-muted-foreground">Please sign in to use the visualizer</p>
@@ -704,6 +2030,14 @@ export default function SpacetimeVisualizer() {
     );
   }
 
+  if (readOnly && sharedScene === null) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <p className="text-muted-foreground">This shared scene is no longer available</p>
+      </div>
+    );
+  }
+
   return (
     <div className="flex h-screen bg-background">
       {/* Control Panel */}
@@ -715,28 +2049,90 @@ export default function SpacetimeVisualizer() {
         <div className="space-y-8">
           <div>
             <h2 className="text-xl font-bold tracking-tight mb-4">Spacetime Visualizer</h2>
-            <p className="text-sm text-muted-foreground mb-6">
-              Click on the grid to place objects and observe how they warp spacetime.
-            </p>
+            {readOnly ? (
+              <p className="text-sm text-muted-foreground mb-6">
+                Viewing <strong>{sharedScene?.name ?? "shared scene"}</strong> (read-only).
+                {sharedScene?.description && <> {sharedScene.description}</>}
+              </p>
+            ) : (
+              <p className="text-sm text-muted-foreground mb-6">
+                Click on the grid to place objects and observe how they warp spacetime. Click an object to select it.
+              </p>
+            )}
           </div>
 
+          {/* Scene Selection */}
+          {!readOnly && (
+            <div>
+              <h3 className="font-medium mb-4">Scene</h3>
+              <ScenePicker scenes={scenes ?? []} sceneId={sceneId} onSelect={setSceneId} />
+            </div>
+          )}
+
+          {/* Collaborators currently in the scene */}
+          {!readOnly && sceneId && (
+            <div>
+              <h3 className="font-medium mb-4">In This Scene ({collaborators.length + 1})</h3>
+              <div className="space-y-2">
+                {collaborators.map((participant) => (
+                  <div key={participant._id} className="flex items-center gap-2 text-sm">
+                    <span
+                      className="w-3 h-3 rounded-full shrink-0"
+                      style={{ backgroundColor: presenceColor(participant.userId) }}
+                    />
+                    <span className="flex-1 truncate">{participant.name ?? "Anonymous"}</span>
+                    {participant.isPresenting && (
+                      <span className="text-xs text-muted-foreground flex items-center">
+                        <Eye className="w-3 h-3 mr-1" />
+                        presenting
+                      </span>
+                    )}
+                  </div>
+                ))}
+                <div className="flex items-center justify-between">
+                  <label className="text-sm">Present My View</label>
+                  <Switch
+                    checked={isPresenting}
+                    onCheckedChange={(checked) => {
+                      setIsPresenting(checked);
+                      if (checked) setFollowPresenter(false);
+                    }}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <label className="text-sm">Follow Presenter</label>
+                  <Switch
+                    checked={followPresenter}
+                    onCheckedChange={setFollowPresenter}
+                    disabled={!presenter || isPresenting}
+                  />
+                </div>
+                {followPresenter && presenter && (
+                  <p className="text-xs text-muted-foreground">Following {presenter.name ?? "presenter"}'s camera</p>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Object Selection */}
-          <div>
-            <h3 className="font-medium mb-4">Place Objects</h3>
-            <div className="grid grid-cols-2 gap-2">
-              {Object.entries(OBJECT_TYPES).map(([type, config]) => (
-                <Button
-                  key={type}
-                  variant={selectedObjectType === type ? "default" : "outline"}
-                  size="sm"
-                  onClick={() => setSelectedObjectType(type as keyof typeof OBJECT_TYPES)}
-                  className="text-xs capitalize"
-                >
-                  {type}
-                </Button>
-              ))}
+          {canEdit && (
+            <div>
+              <h3 className="font-medium mb-4">Place Objects</h3>
+              <div className="grid grid-cols-2 gap-2">
+                {Object.entries(OBJECT_TYPES).map(([type, config]) => (
+                  <Button
+                    key={type}
+                    variant={selectedObjectType === type ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setSelectedObjectType(type as keyof typeof OBJECT_TYPES)}
+                    className="text-xs capitalize"
+                  >
+                    {type}
+                  </Button>
+                ))}
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Object List */}
           <div>
@@ -756,20 +2152,25 @@ export default function SpacetimeVisualizer() {
                       <p className="text-xs text-muted-foreground">
                         Mass: {obj.mass.toFixed(2)}
                       </p>
+                      {obj.lastEditedByName && (
+                        <p className="text-xs text-muted-foreground">Edited by {obj.lastEditedByName}</p>
+                      )}
                     </div>
-                    <Button
-                      size="sm"
-                      variant="ghost"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        deleteObject({ objectId: obj._id });
-                        if (selectedObject?._id === obj._id) {
-                          setSelectedObject(null);
-                        }
-                      }}
-                    >
-                      ×
-                    </Button>
+                    {canEdit && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDeleteObject(obj);
+                          if (selectedObject?._id === obj._id) {
+                            setSelectedObject(null);
+                          }
+                        }}
+                      >
+                        ×
+                      </Button>
+                    )}
                   </div>
                 </Card>
               ))}
@@ -777,7 +2178,7 @@ export default function SpacetimeVisualizer() {
           </div>
 
           {/* Mass Control */}
-          {selectedObject && (
+          {selectedObject && canEdit && (
             <div>
               <h3 className="font-medium mb-4">Adjust Mass</h3>
               <div className="space-y-4">
@@ -801,10 +2202,209 @@ export default function SpacetimeVisualizer() {
                     {selectedObject.mass.toFixed(2)} solar masses
                   </p>
                 </div>
+                <div>
+                  <p className="text-sm text-muted-foreground mb-2">Initial velocity (units/s)</p>
+                  <div className="flex items-center gap-3">
+                    {(["x", "z"] as const).map((axis) => (
+                      <Input
+                        key={axis}
+                        type="number"
+                        inputMode="decimal"
+                        step="0.1"
+                        min={-100}
+                        max={100}
+                        aria-label={`Velocity ${axis}`}
+                        value={velocityDraft[axis] ?? selectedObject.velocity?.[axis] ?? 0}
+                        onChange={(e) => setVelocityDraft((draft) => ({ ...draft, [axis]: e.target.value }))}
+                        onBlur={() => commitVelocityDraft(axis)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") commitVelocityDraft(axis);
+                        }}
+                        className="w-full"
+                      />
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-2 mt-2">
+                    <Button onClick={() => handleOrbit(0)} variant="outline" size="sm" disabled={objects.length < 2}>
+                      <Orbit className="w-4 h-4 mr-2" />
+                      Circular Orbit
+                    </Button>
+                    <Button
+                      onClick={() => handleOrbit(ECCENTRIC_ORBIT)}
+                      variant="outline"
+                      size="sm"
+                      disabled={objects.length < 2}
+                      title={`Start at the periapsis of an e = ${ECCENTRIC_ORBIT} orbit`}
+                    >
+                      Eccentric Orbit
+                    </Button>
+                  </div>
+                </div>
               </div>
             </div>
           )}
 
+          {/* Light Sources */}
+          <RayEmittersPanel
+            emitters={getEffectiveEmitters()}
+            selectedId={selectedEmitterId}
+            canEdit={canEdit}
+            extent={gridSettings.extent}
+            onSelect={setSelectedEmitterId}
+            onCreate={handleCreateEmitter}
+            onChange={handleEmitterChange}
+            onDelete={handleDeleteEmitter}
+          />
+
+          {/* Test Particles */}
+          <TestParticlesPanel
+            launchOnClick={launchOnClick}
+            onLaunchOnClickChange={handleLaunchOnClickChange}
+            velocity={launchVelocity}
+            onVelocityChange={setLaunchVelocity}
+            model={trajectoryModel}
+            onModelChange={setTrajectoryModel}
+            colorBySpeed={colorBySpeed}
+            onColorBySpeedChange={setColorBySpeed}
+            trajectories={trajectories}
+            onRemove={(id) => setTrajectories((current) => current.filter((t) => t.id !== id))}
+            onClear={() => setTrajectories([])}
+          />
+
+          {/* Clocks */}
+          <ClockProbesPanel
+            showDilation={showDilation}
+            onShowDilationChange={setShowDilation}
+            placeOnClick={placeClocks}
+            onPlaceOnClickChange={handlePlaceClocksChange}
+            clocks={clocks}
+            onRemove={removeClock}
+            onSynchronize={synchronizeClocks}
+            onClear={clearClocks}
+          />
+
+          {/* Simulation */}
+          <div>
+            <h3 className="font-medium mb-4">Simulation</h3>
+            <div className="space-y-4">
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => simulation.setIsPlaying(!simulation.isPlaying)}
+                  size="sm"
+                  className="flex-1"
+                  disabled={objects.length === 0}
+                >
+                  {simulation.isPlaying ? (
+                    <Pause className="w-4 h-4 mr-2" />
+                  ) : (
+                    <Play className="w-4 h-4 mr-2" />
+                  )}
+                  {simulation.isPlaying ? "Pause" : "Play"}
+                </Button>
+                <Button
+                  onClick={handleSimulationStep}
+                  variant="outline"
+                  size="sm"
+                  disabled={objects.length === 0}
+                  aria-label="Step"
+                >
+                  <StepForward className="w-4 h-4" />
+                </Button>
+                <Button
+                  onClick={handleSimulationReset}
+                  variant="outline"
+                  size="sm"
+                  aria-label="Reset simulation"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </Button>
+              </div>
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-sm">Time Scale</label>
+                  <span className="text-xs text-muted-foreground">{simulation.timeScale.toFixed(1)}×</span>
+                </div>
+                <Slider
+                  min={0.1}
+                  max={10}
+                  step={0.1}
+                  value={[simulation.timeScale]}
+                  onValueChange={([value]) => simulation.setTimeScale(value)}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <label className="text-sm">1PN Corrections (EIH)</label>
+                <Switch checked={postNewtonian} onCheckedChange={setPostNewtonian} />
+              </div>
+              {selectedObject && (
+                <div className="text-xs space-y-1">
+                  <p className="text-muted-foreground">Periapsis advance of the selected object</p>
+                  {precession ? (
+                    <div className="font-mono">
+                      <p>
+                        measured {toDegrees(precession.measured).toFixed(3)}°/orbit over {precession.orbits}{" "}
+                        {precession.orbits === 1 ? "orbit" : "orbits"}
+                      </p>
+                      <p>
+                        6πGM/(c²a(1−e²)) = {toDegrees(precession.predicted).toFixed(3)}°/orbit
+                      </p>
+                      <p className="text-muted-foreground">
+                        a {precession.semiMajorAxis.toFixed(2)} · e {precession.eccentricity.toFixed(3)}
+                      </p>
+                    </div>
+                  ) : (
+                    <p className="text-muted-foreground">Measured after one full eccentric orbit of the running simulation.</p>
+                  )}
+                </div>
+              )}
+              <div className="flex items-center justify-between">
+                <label className="text-sm">Collisions</label>
+                <Switch checked={collisionsEnabled} onCheckedChange={setCollisionsEnabled} />
+              </div>
+              {collisionsEnabled && (
+                <>
+                  <Select value={collisionMode} onValueChange={(value) => setCollisionMode(value as CollisionMode)}>
+                    <SelectTrigger className="w-full" size="sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {COLLISION_MODES.map((mode) => (
+                        <SelectItem key={mode} value={mode}>
+                          {COLLISION_LABELS[mode]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="text-sm">Merge Radius</label>
+                      <span className="text-xs text-muted-foreground">{mergeRadiusFactor.toFixed(1)}× size</span>
+                    </div>
+                    <Slider
+                      min={0.5}
+                      max={5}
+                      step={0.1}
+                      value={[mergeRadiusFactor]}
+                      onValueChange={([value]) => setMergeRadiusFactor(value)}
+                    />
+                  </div>
+                </>
+              )}
+              <p className="text-xs text-muted-foreground">t = {simulation.elapsed.toFixed(1)} s</p>
+            </div>
+          </div>
+
+          <InspiralPanel
+            enabled={radiationReaction}
+            onEnabledChange={setRadiationReaction}
+            inspiral={inspiral}
+            label={
+              inspiral
+                ? inspiral.ids.map((id) => objects.find((o) => o._id === id)?.name ?? "merged body").join(" + ")
+                : ""
+            }
+          />
+
           {/* Visualization Options */}
           <div>
             <h3 className="font-medium mb-4">Options</h3>
@@ -816,6 +2416,62 @@ export default function SpacetimeVisualizer() {
                   onCheckedChange={setShowGeodesics}
                 />
               </div>
+              <div className="flex items-center justify-between">
+                <label className="text-sm">Physical Light Bending</label>
+                <Switch
+                  checked={physicalRays}
+                  onCheckedChange={setPhysicalRays}
+                  disabled={!showGeodesics}
+                />
+              </div>
+              {showGeodesics && physicalRays && rayReports.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-xs text-muted-foreground">Deflection per ray, in the color of its source</p>
+                  <div className="grid grid-cols-2 gap-x-4 text-xs font-mono">
+                    {rayReports.map((ray, i) => (
+                      <span key={i} className={ray.captured ? "text-red-400" : undefined} style={ray.captured ? undefined : { color: ray.color }}>
+                        {i + 1}: {ray.deflection === null ? "captured" : `${((ray.deflection * 180) / Math.PI).toFixed(3)}°`}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <div className="space-y-2">
+                <label className="text-sm">Sheet Shape</label>
+                <Select value={sheetShape} onValueChange={(value) => setSheetShape(value as SheetShape)}>
+                  <SelectTrigger className="w-full" size="sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SHEET_SHAPE_LABELS) as SheetShape[]).map((shape) => (
+                      <SelectItem key={shape} value={shape}>
+                        {SHEET_SHAPE_LABELS[shape]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {sheetShape === "embedding" && (
+                  <p className="text-xs text-muted-foreground">
+                    {objects.length > 1
+                      ? "Approximation: several masses have no exact embedding, so each mass's Flamm depression is summed."
+                      : "Exact Schwarzschild spatial slice, z = 2√(r_s(r − r_s)); distances along the sheet are proper distances."}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center justify-between">
+                <label className="text-sm">Lensed Starfield</label>
+                <Switch
+                  checked={showStarfield}
+                  onCheckedChange={setShowStarfield}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <label className="text-sm">Adaptive Grid</label>
+                <Switch
+                  checked={adaptiveGrid}
+                  onCheckedChange={setAdaptiveGrid}
+                />
+              </div>
               <div className="flex items-center justify-between">
                 <label className="text-sm">Educational Info</label>
                 <Switch
@@ -823,21 +2479,135 @@ export default function SpacetimeVisualizer() {
                   onCheckedChange={setShowEducational}
                 />
               </div>
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-sm">Grid Extent</label>
+                  <span className="text-xs text-muted-foreground">±{gridSettings.extent}</span>
+                </div>
+                <Slider
+                  min={GRID_EXTENT_MIN}
+                  max={GRID_EXTENT_MAX}
+                  step={5}
+                  value={[gridSettings.extent]}
+                  onValueChange={([value]) => handleGridSettingsChange({ extent: value })}
+                  disabled={!canEdit}
+                />
+              </div>
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-sm">Grid Resolution</label>
+                  <span className="text-xs text-muted-foreground">
+                    {gridSettings.divisions}×{gridSettings.divisions}
+                  </span>
+                </div>
+                <Slider
+                  min={GRID_DIVISIONS_MIN}
+                  max={GRID_DIVISIONS_MAX}
+                  step={16}
+                  value={[gridSettings.divisions]}
+                  onValueChange={([value]) => handleGridSettingsChange({ divisions: value })}
+                  disabled={!canEdit}
+                />
+              </div>
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-sm">Field Opening Angle</label>
+                  <span className="text-xs text-muted-foreground">
+                    {openingAngle === 0 ? "exact" : `θ ${openingAngle.toFixed(2)}`}
+                  </span>
+                </div>
+                <Slider
+                  min={0}
+                  max={MAX_OPENING_ANGLE}
+                  step={0.05}
+                  value={[openingAngle]}
+                  onValueChange={([value]) => setOpeningAngle(value)}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Approximates distant groups as single masses in the sampled field behind light paths and grid detail,
+                  in scenes with many bodies; 0 sums every body exactly. The sheet itself always sums every body.
+                </p>
+              </div>
             </div>
           </div>
 
           {/* Controls */}
           <div className="space-y-2">
-            <Button
-              onClick={handleClearAll}
-              variant="outline"
-              size="sm"
-              className="w-full"
-              disabled={objects.length === 0}
-            >
-              <RotateCcw className="w-4 h-4 mr-2" />
-              Clear All
-            </Button>
+            {canEdit && (
+              <div className="flex gap-2">
+                <Button
+                  onClick={handleUndo}
+                  variant="outline"
+                  size="sm"
+                  className="flex-1"
+                  disabled={!canUndo && !restorableSnapshot}
+                  title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : "Undo (Ctrl+Z)"}
+                >
+                  <Undo2 className="w-4 h-4 mr-2" />
+                  Undo
+                </Button>
+                <Button
+                  onClick={handleRedo}
+                  variant="outline"
+                  size="sm"
+                  className="flex-1"
+                  disabled={!canRedo}
+                  title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : "Redo (Ctrl+Shift+Z)"}
+                >
+                  <Redo2 className="w-4 h-4 mr-2" />
+                  Redo
+                </Button>
+              </div>
+            )}
+            {restorableSnapshot && (
+              <p className="text-xs text-muted-foreground">
+                Undo restores the {restorableSnapshot.objectCount} objects from the last Clear All.
+              </p>
+            )}
+            <div className="flex gap-2">
+              <Button
+                onClick={handleExport}
+                variant="outline"
+                size="sm"
+                className="flex-1"
+                disabled={objects.length === 0}
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Export
+              </Button>
+              {canEdit && (
+                <>
+                  <Button
+                    onClick={() => importInputRef.current?.click()}
+                    variant="outline"
+                    size="sm"
+                    className="flex-1"
+                  >
+                    <Upload className="w-4 h-4 mr-2" />
+                    Import
+                  </Button>
+                  <input
+                    ref={importInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={handleImportFile}
+                  />
+                </>
+              )}
+            </div>
+            {canEdit && (
+              <Button
+                onClick={handleClearAll}
+                variant="outline"
+                size="sm"
+                className="w-full"
+                disabled={objects.length === 0}
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Clear All
+              </Button>
+            )}
           </div>
         </div>
       </motion.div>
@@ -847,7 +2617,9 @@ export default function SpacetimeVisualizer() {
         <canvas
           ref={canvasRef}
           onClick={handleCanvasClick}
-          className="w-full h-full cursor-crosshair"
+          onMouseMove={readOnly ? undefined : handleCanvasPointerMove}
+          onMouseLeave={readOnly ? undefined : handleCanvasPointerLeave}
+          className={`w-full h-full ${canEdit ? "cursor-crosshair" : "cursor-grab"}`}
         />
         
         {/* Educational Overlay */}
@@ -871,7 +2643,7 @@ export default function SpacetimeVisualizer() {
         {/* Controls Hint */}
         <div className="absolute bottom-8 left-8 bg-card/90 backdrop-blur-sm border border-border rounded-lg p-4">
           <p className="text-sm text-muted-foreground">
-            <strong>Controls:</strong> Left-drag rotate • Right-drag rotate • Shift+drag pan • Scroll to zoom
+            <strong>Controls:</strong> Click an object to select • Drag to move • Alt+click to place over one • Left-drag rotate • Right-drag rotate • Shift+drag pan • Scroll to zoom
           </p>
         </div>
       </div>
@@ -0,0 +1,126 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Trajectory, TrajectoryModel, TrajectoryOutcome, Vec2 } from "@/lib/physics";
+
+export interface LaunchedTrajectory extends Trajectory {
+  id: number;
+  color: string; // used unless coloring by speed
+  model: TrajectoryModel;
+}
+
+interface TestParticlesPanelProps {
+  launchOnClick: boolean;
+  onLaunchOnClickChange: (value: boolean) => void;
+  velocity: Vec2;
+  onVelocityChange: (velocity: Vec2) => void;
+  model: TrajectoryModel;
+  onModelChange: (model: TrajectoryModel) => void;
+  colorBySpeed: boolean;
+  onColorBySpeedChange: (value: boolean) => void;
+  trajectories: LaunchedTrajectory[];
+  onRemove: (id: number) => void;
+  onClear: () => void;
+}
+
+const MODEL_LABELS: Record<TrajectoryModel, string> = {
+  field: "Sheet potential (all bodies)",
+  schwarzschild: "Schwarzschild (heaviest body)",
+};
+
+const OUTCOME_LABELS: Record<TrajectoryOutcome, string> = {
+  bound: "bound",
+  escape: "left the grid",
+  capture: "captured",
+};
+
+// Launch settings for massive test particles and the conserved quantities of each trajectory
+export function TestParticlesPanel({
+  launchOnClick,
+  onLaunchOnClickChange,
+  velocity,
+  onVelocityChange,
+  model,
+  onModelChange,
+  colorBySpeed,
+  onColorBySpeedChange,
+  trajectories,
+  onRemove,
+  onClear,
+}: TestParticlesPanelProps) {
+  return (
+    <div>
+      <h3 className="font-medium mb-4">Test Particles ({trajectories.length})</h3>
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <label className="text-sm">Launch on Click</label>
+          <Switch checked={launchOnClick} onCheckedChange={onLaunchOnClickChange} />
+        </div>
+        <div>
+          <p className="text-sm text-muted-foreground mb-2">Launch velocity (units/s)</p>
+          <div className="flex items-center gap-3">
+            {(["x", "z"] as const).map((axis) => (
+              <Input
+                key={axis}
+                type="number"
+                inputMode="decimal"
+                step="0.1"
+                aria-label={`Launch velocity ${axis}`}
+                value={velocity[axis]}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (Number.isFinite(value)) onVelocityChange({ ...velocity, [axis]: value });
+                }}
+                className="w-full"
+              />
+            ))}
+          </div>
+        </div>
+        <div>
+          <label className="text-sm">Model</label>
+          <Select value={model} onValueChange={(value) => onModelChange(value as TrajectoryModel)}>
+            <SelectTrigger className="mt-2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(MODEL_LABELS) as TrajectoryModel[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {MODEL_LABELS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center justify-between">
+          <label className="text-sm">Color by Speed</label>
+          <Switch checked={colorBySpeed} onCheckedChange={onColorBySpeedChange} />
+        </div>
+        {trajectories.length > 0 && (
+          <div className="space-y-1">
+            <div className="max-h-40 overflow-y-auto space-y-1">
+              {trajectories.map((t) => (
+                <div key={t.id} className="flex items-center justify-between text-xs">
+                  <div className="flex items-center gap-2">
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: t.color }} />
+                    <span className="font-mono">
+                      E {t.energy.toFixed(3)} · L {t.angularMomentum.toFixed(2)}
+                    </span>
+                    <span className="text-muted-foreground">{OUTCOME_LABELS[t.outcome]}</span>
+                  </div>
+                  <Button size="sm" variant="ghost" className="h-6 px-2" onClick={() => onRemove(t.id)}>
+                    ×
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">E and L are per unit mass; L is about the heaviest body.</p>
+            <Button size="sm" variant="outline" className="w-full" onClick={onClear}>
+              Clear Trajectories
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
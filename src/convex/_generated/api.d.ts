@@ -17,6 +17,9 @@ import type * as auth_emailOtp from "../auth/emailOtp.js";
 import type * as auth from "../auth.js";
 import type * as http from "../http.js";
 import type * as objects from "../objects.js";
+import type * as presence from "../presence.js";
+import type * as rayEmitters from "../rayEmitters.js";
+import type * as scenes from "../scenes.js";
 import type * as users from "../users.js";
 
 /**
@@ -32,6 +35,9 @@ declare const fullApi: ApiFromModules<{
   auth: typeof auth;
   http: typeof http;
   objects: typeof objects;
+  presence: typeof presence;
+  rayEmitters: typeof rayEmitters;
+  scenes: typeof scenes;
   users: typeof users;
 }>;
 export declare const api: FilterApi<
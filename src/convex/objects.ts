@@ -1,9 +1,71 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { mutation, query, QueryCtx } from "./_generated/server";
+import { isObjectType } from "../lib/physics/objectTypes";
+import { getSceneAccess, requireSceneRole, touchScene } from "./scenes";
+import { SCENE_ROLES } from "./schema";
 import { getCurrentUser } from "./users";
 
+// Keeps a scene within what the grid and n-body integrator can handle interactively; must stay
+// at or below the sheet shader's MAX_SHADER_BODIES, which sums every body per vertex
+export const MAX_OBJECTS_PER_SCENE = 500;
+
+const vector = v.object({
+  x: v.number(),
+  y: v.number(),
+  z: v.number(),
+});
+
+const objectFields = {
+  type: v.string(),
+  mass: v.number(),
+  position: vector,
+  name: v.optional(v.string()),
+  velocity: v.optional(vector),
+};
+
+const isFiniteVector = (value: { x: number; y: number; z: number }) =>
+  Number.isFinite(value.x) && Number.isFinite(value.y) && Number.isFinite(value.z);
+
+// Throws a `label.field: reason` error for the first invalid field
+const validateObjectFields = (
+  fields: { type?: string; mass?: number; position?: { x: number; y: number; z: number }; velocity?: { x: number; y: number; z: number } },
+  label: string,
+) => {
+  if (fields.type !== undefined && !isObjectType(fields.type)) {
+    throw new Error(`${label}.type: unknown object type "${fields.type}"`);
+  }
+  if (fields.mass !== undefined && (!Number.isFinite(fields.mass) || fields.mass <= 0)) {
+    throw new Error(`${label}.mass: must be a positive number`);
+  }
+  if (fields.position && !isFiniteVector(fields.position)) {
+    throw new Error(`${label}.position: coordinates must be finite`);
+  }
+  if (fields.velocity && !isFiniteVector(fields.velocity)) {
+    throw new Error(`${label}.velocity: components must be finite`);
+  }
+};
+
+const countSceneObjects = async (ctx: QueryCtx, sceneId: Id<"scenes">) =>
+  (
+    await ctx.db
+      .query("spaceObjects")
+      .withIndex("by_scene", (q) => q.eq("sceneId", sceneId))
+      .collect()
+  ).length;
+
+// Scene objects are editable by the scene's owner and editors; objects from before scenes only by their creator
+const canEditObject = async (ctx: QueryCtx, object: Doc<"spaceObjects">, userId: Id<"users">) => {
+  if (!object.sceneId) {
+    return object.userId === userId;
+  }
+  const access = await getSceneAccess(ctx, object.sceneId);
+  return !!access && access.role !== SCENE_ROLES.VIEWER;
+};
+
 export const createObject = mutation({
   args: {
+    sceneId: v.id("scenes"),
     type: v.string(),
     mass: v.number(),
     position: v.object({
@@ -12,35 +74,70 @@ export const createObject = mutation({
       z: v.number(),
     }),
     name: v.optional(v.string()),
+    velocity: v.optional(
+      v.object({
+        x: v.number(),
+        y: v.number(),
+        z: v.number(),
+      }),
+    ),
   },
   handler: async (ctx, args) => {
     const user = await getCurrentUser(ctx);
     if (!user) {
       throw new Error("Must be authenticated to create objects");
     }
+    await requireSceneRole(ctx, args.sceneId, SCENE_ROLES.EDITOR);
+    validateObjectFields(args, "args");
+    if ((await countSceneObjects(ctx, args.sceneId)) >= MAX_OBJECTS_PER_SCENE) {
+      throw new Error(`Scenes are limited to ${MAX_OBJECTS_PER_SCENE} objects`);
+    }
 
-    return await ctx.db.insert("spaceObjects", {
+    const objectId = await ctx.db.insert("spaceObjects", {
       userId: user._id,
+      sceneId: args.sceneId,
       type: args.type,
       mass: args.mass,
       position: args.position,
       name: args.name,
+      velocity: args.velocity,
+      lastEditedBy: user._id,
+      lastEditedAt: Date.now(),
     });
+    await touchScene(ctx, args.sceneId);
+    return objectId;
   },
 });
 
-export const getUserObjects = query({
-  args: {},
-  handler: async (ctx) => {
-    const user = await getCurrentUser(ctx);
-    if (!user) {
+export const getSceneObjects = query({
+  args: {
+    sceneId: v.id("scenes"),
+  },
+  handler: async (ctx, args) => {
+    const access = await getSceneAccess(ctx, args.sceneId);
+    if (!access) {
       return [];
     }
 
-    return await ctx.db
+    const objects = await ctx.db
       .query("spaceObjects")
-      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .withIndex("by_scene", (q) => q.eq("sceneId", args.sceneId))
       .collect();
+
+    // Resolve last-writer names once per distinct editor; as with the member list, only the owner sees emails
+    const isOwner = access.role === SCENE_ROLES.OWNER;
+    const editorNames = new Map<Id<"users">, string | undefined>();
+    for (const object of objects) {
+      if (object.lastEditedBy && !editorNames.has(object.lastEditedBy)) {
+        const editor = await ctx.db.get(object.lastEditedBy);
+        editorNames.set(object.lastEditedBy, editor?.name ?? (isOwner ? editor?.email : undefined) ?? "Collaborator");
+      }
+    }
+
+    return objects.map((object) => ({
+      ...object,
+      lastEditedByName: object.lastEditedBy ? editorNames.get(object.lastEditedBy) : undefined,
+    }));
   },
 });
 
@@ -56,13 +153,17 @@ export const updateObjectMass = mutation({
     }
 
     const object = await ctx.db.get(args.objectId);
-    if (!object || object.userId !== user._id) {
+    if (!object || !(await canEditObject(ctx, object, user._id))) {
       throw new Error("Object not found or unauthorized");
     }
+    validateObjectFields(args, "args");
 
     await ctx.db.patch(args.objectId, {
       mass: args.mass,
+      lastEditedBy: user._id,
+      lastEditedAt: Date.now(),
     });
+    await touchScene(ctx, object.sceneId);
   },
 });
 
@@ -82,13 +183,100 @@ export const updateObjectPosition = mutation({
     }
 
     const object = await ctx.db.get(args.objectId);
-    if (!object || object.userId !== user._id) {
+    if (!object || !(await canEditObject(ctx, object, user._id))) {
       throw new Error("Object not found or unauthorized");
     }
+    validateObjectFields(args, "args");
 
     await ctx.db.patch(args.objectId, {
       position: args.position,
+      lastEditedBy: user._id,
+      lastEditedAt: Date.now(),
+    });
+    await touchScene(ctx, object.sceneId);
+  },
+});
+
+export const updateObjectVelocity = mutation({
+  args: {
+    objectId: v.id("spaceObjects"),
+    velocity: v.object({
+      x: v.number(),
+      y: v.number(),
+      z: v.number(),
+    }),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("Must be authenticated");
+    }
+
+    const object = await ctx.db.get(args.objectId);
+    if (!object || !(await canEditObject(ctx, object, user._id))) {
+      throw new Error("Object not found or unauthorized");
+    }
+    validateObjectFields(args, "args");
+
+    await ctx.db.patch(args.objectId, {
+      velocity: args.velocity,
+      lastEditedBy: user._id,
+      lastEditedAt: Date.now(),
+    });
+    await touchScene(ctx, object.sceneId);
+  },
+});
+
+// Applies an n-body merger atomically: the survivor takes the remnant's type and mass
+// and every absorbed body is removed. Stored positions and velocities are initial
+// conditions, so the survivor keeps its own rather than the mid-run merge point.
+// Every simulating editor reports the merger; the first to commit wins and later
+// reports, finding the absorbed bodies gone, change nothing. Returns whether this
+// call applied the merger.
+export const resolveMerger = mutation({
+  args: {
+    survivorId: v.id("spaceObjects"),
+    absorbedIds: v.array(v.id("spaceObjects")),
+    type: v.string(),
+    mass: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("Must be authenticated");
+    }
+
+    const survivor = await ctx.db.get(args.survivorId);
+    // Another client may already have resolved this merger
+    if (!survivor) {
+      return false;
+    }
+    if (!(await canEditObject(ctx, survivor, user._id))) {
+      throw new Error("Object not found or unauthorized");
+    }
+    validateObjectFields(args, "args");
+
+    const absorbedBodies = [];
+    for (const absorbedId of args.absorbedIds) {
+      const absorbed = await ctx.db.get(absorbedId);
+      if (!absorbed) return false;
+      if (absorbed.sceneId !== survivor.sceneId || !(await canEditObject(ctx, absorbed, user._id))) {
+        throw new Error("Object not found or unauthorized");
+      }
+      absorbedBodies.push(absorbed);
+    }
+
+    for (const absorbed of absorbedBodies) {
+      await ctx.db.delete(absorbed._id);
+    }
+    await ctx.db.patch(args.survivorId, {
+      type: args.type,
+      mass: args.mass,
+      lastEditedBy: user._id,
+      lastEditedAt: Date.now(),
     });
+    await touchScene(ctx, survivor.sceneId);
+    return true;
   },
 });
 
@@ -104,29 +292,283 @@ export const deleteObject = mutation({
 
     const object = await ctx.db.get(args.objectId);
     // Make deletion idempotent and silent on unauthorized
-    if (!object || object.userId !== user._id) {
+    if (!object || !(await canEditObject(ctx, object, user._id))) {
       return;
     }
 
     await ctx.db.delete(args.objectId);
+    await touchScene(ctx, object.sceneId);
   },
 });
 
+// Snapshots the scene before clearing it and returns the snapshot id, so the clear can be undone
 export const clearAllObjects = mutation({
-  args: {},
-  handler: async (ctx) => {
-    const user = await getCurrentUser(ctx);
-    if (!user) {
-      throw new Error("Must be authenticated");
-    }
+  args: {
+    sceneId: v.id("scenes"),
+  },
+  handler: async (ctx, args) => {
+    const { user } = await requireSceneRole(ctx, args.sceneId, SCENE_ROLES.EDITOR);
 
     const objects = await ctx.db
       .query("spaceObjects")
-      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .withIndex("by_scene", (q) => q.eq("sceneId", args.sceneId))
       .collect();
 
+    // Only the most recent clear is restorable
+    const previous = await ctx.db
+      .query("sceneSnapshots")
+      .withIndex("by_scene", (q) => q.eq("sceneId", args.sceneId))
+      .collect();
+    for (const snapshot of previous) {
+      await ctx.db.delete(snapshot._id);
+    }
+    const snapshotId = await ctx.db.insert("sceneSnapshots", {
+      sceneId: args.sceneId,
+      userId: user._id,
+      objects: objects.map((object) => ({
+        objectId: object._id,
+        type: object.type,
+        mass: object.mass,
+        position: object.position,
+        name: object.name,
+        velocity: object.velocity,
+      })),
+      createdAt: Date.now(),
+    });
+
     for (const object of objects) {
       await ctx.db.delete(object._id);
     }
+    await touchScene(ctx, args.sceneId);
+    return snapshotId;
+  },
+});
+
+export const getLatestSnapshot = query({
+  args: {
+    sceneId: v.id("scenes"),
+  },
+  handler: async (ctx, args) => {
+    const access = await getSceneAccess(ctx, args.sceneId);
+    if (!access) {
+      return null;
+    }
+
+    const snapshot = await ctx.db
+      .query("sceneSnapshots")
+      .withIndex("by_scene", (q) => q.eq("sceneId", args.sceneId))
+      .order("desc")
+      .first();
+    if (!snapshot) {
+      return null;
+    }
+    return { _id: snapshot._id, objectCount: snapshot.objects.length, createdAt: snapshot.createdAt };
+  },
+});
+
+// Puts a cleared scene's objects back and consumes the snapshot.
+// Returns the old and new id of every restored object.
+export const restoreSnapshot = mutation({
+  args: {
+    snapshotId: v.id("sceneSnapshots"),
+  },
+  handler: async (ctx, args) => {
+    const snapshot = await ctx.db.get(args.snapshotId);
+    if (!snapshot) {
+      throw new Error("Nothing to restore");
+    }
+    const { user } = await requireSceneRole(ctx, snapshot.sceneId, SCENE_ROLES.EDITOR);
+
+    const existing = await countSceneObjects(ctx, snapshot.sceneId);
+    if (existing + snapshot.objects.length > MAX_OBJECTS_PER_SCENE) {
+      throw new Error(`Scenes are limited to ${MAX_OBJECTS_PER_SCENE} objects`);
+    }
+
+    const now = Date.now();
+    const restored = [];
+    for (const { objectId, ...fields } of snapshot.objects) {
+      const newId = await ctx.db.insert("spaceObjects", {
+        userId: user._id,
+        sceneId: snapshot.sceneId,
+        ...fields,
+        lastEditedBy: user._id,
+        lastEditedAt: now,
+      });
+      restored.push({ objectId, newId });
+    }
+    await ctx.db.delete(args.snapshotId);
+    await touchScene(ctx, snapshot.sceneId);
+    return restored;
+  },
+});
+
+// Batch variants of the single-object mutations. Each validates every entry before
+// writing anything and runs as one transaction, so a batch applies fully or not at all.
+
+export const createObjects = mutation({
+  args: {
+    sceneId: v.id("scenes"),
+    objects: v.array(v.object(objectFields)),
   },
-});
\ No newline at end of file
+  handler: async (ctx, args) => {
+    const { user } = await requireSceneRole(ctx, args.sceneId, SCENE_ROLES.EDITOR);
+
+    args.objects.forEach((object, i) => validateObjectFields(object, `objects.${i}`));
+    const existing = await countSceneObjects(ctx, args.sceneId);
+    if (existing + args.objects.length > MAX_OBJECTS_PER_SCENE) {
+      throw new Error(
+        `Scenes are limited to ${MAX_OBJECTS_PER_SCENE} objects; this scene has room for ${Math.max(0, MAX_OBJECTS_PER_SCENE - existing)} more`,
+      );
+    }
+
+    const now = Date.now();
+    const ids = [];
+    for (const object of args.objects) {
+      ids.push(
+        await ctx.db.insert("spaceObjects", {
+          userId: user._id,
+          sceneId: args.sceneId,
+          ...object,
+          lastEditedBy: user._id,
+          lastEditedAt: now,
+        }),
+      );
+    }
+    await touchScene(ctx, args.sceneId);
+    return ids;
+  },
+});
+
+export const updateObjects = mutation({
+  args: {
+    updates: v.array(
+      v.object({
+        objectId: v.id("spaceObjects"),
+        type: v.optional(v.string()),
+        mass: v.optional(v.number()),
+        position: v.optional(vector),
+        name: v.optional(v.string()),
+        velocity: v.optional(vector),
+      }),
+    ),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("Must be authenticated");
+    }
+
+    const sceneIds = new Set<Id<"scenes"> | undefined>();
+    for (const [i, update] of args.updates.entries()) {
+      validateObjectFields(update, `updates.${i}`);
+      const object = await ctx.db.get(update.objectId);
+      if (!object || !(await canEditObject(ctx, object, user._id))) {
+        throw new Error(`updates.${i}.objectId: object not found or unauthorized`);
+      }
+      sceneIds.add(object.sceneId);
+    }
+
+    const now = Date.now();
+    for (const { objectId, ...fields } of args.updates) {
+      await ctx.db.patch(objectId, {
+        ...fields,
+        lastEditedBy: user._id,
+        lastEditedAt: now,
+      });
+    }
+    for (const sceneId of sceneIds) {
+      await touchScene(ctx, sceneId);
+    }
+  },
+});
+
+// Already-deleted ids are skipped, matching deleteObject
+export const deleteObjects = mutation({
+  args: {
+    objectIds: v.array(v.id("spaceObjects")),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("Must be authenticated");
+    }
+
+    const found = [];
+    for (const [i, objectId] of args.objectIds.entries()) {
+      const object = await ctx.db.get(objectId);
+      if (!object) continue;
+      if (!(await canEditObject(ctx, object, user._id))) {
+        throw new Error(`objectIds.${i}: object not found or unauthorized`);
+      }
+      found.push(object);
+    }
+
+    for (const object of found) {
+      await ctx.db.delete(object._id);
+    }
+    for (const sceneId of new Set(found.map((object) => object.sceneId))) {
+      await touchScene(ctx, sceneId);
+    }
+  },
+});
+
+// Undo/redo primitive: sets each listed object to the given state in one transaction.
+// A null state deletes the object; a state for an object that no longer exists recreates
+// it. Returns the resulting id per entry (null when deleted) so history can be remapped.
+export const restoreObjects = mutation({
+  args: {
+    sceneId: v.id("scenes"),
+    changes: v.array(
+      v.object({
+        objectId: v.optional(v.id("spaceObjects")),
+        state: v.union(v.object(objectFields), v.null()),
+      }),
+    ),
+  },
+  handler: async (ctx, args) => {
+    const { user } = await requireSceneRole(ctx, args.sceneId, SCENE_ROLES.EDITOR);
+    args.changes.forEach((change, i) => change.state && validateObjectFields(change.state, `changes.${i}.state`));
+
+    const now = Date.now();
+    const ids = [];
+    for (const { objectId, state } of args.changes) {
+      const object = objectId ? await ctx.db.get(objectId) : null;
+      if (object && object.sceneId !== args.sceneId) {
+        throw new Error("Object not found or unauthorized");
+      }
+
+      if (!state) {
+        if (object) await ctx.db.delete(object._id);
+        ids.push(null);
+      } else if (object) {
+        // Explicit undefineds clear optional fields the restored state doesn't have
+        await ctx.db.patch(object._id, {
+          type: state.type,
+          mass: state.mass,
+          position: state.position,
+          name: state.name,
+          velocity: state.velocity,
+          lastEditedBy: user._id,
+          lastEditedAt: now,
+        });
+        ids.push(object._id);
+      } else {
+        ids.push(
+          await ctx.db.insert("spaceObjects", {
+            userId: user._id,
+            sceneId: args.sceneId,
+            ...state,
+            lastEditedBy: user._id,
+            lastEditedAt: now,
+          }),
+        );
+      }
+    }
+
+    if ((await countSceneObjects(ctx, args.sceneId)) > MAX_OBJECTS_PER_SCENE) {
+      throw new Error(`Scenes are limited to ${MAX_OBJECTS_PER_SCENE} objects`);
+    }
+    await touchScene(ctx, args.sceneId);
+    return ids;
+  },
+});
@@ -0,0 +1,100 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { isPresenceLive } from "../lib/presence";
+import { getSceneAccess, requireSceneRole } from "./scenes";
+import { SCENE_ROLES } from "./schema";
+import { getCurrentUser } from "./users";
+
+// Returns every row with its `lastSeen`; clients expire stale ones themselves, since a
+// cached query result isn't re-evaluated just because time has passed
+export const listPresence = query({
+  args: {
+    sceneId: v.id("scenes"),
+  },
+  handler: async (ctx, args) => {
+    const access = await getSceneAccess(ctx, args.sceneId);
+    if (!access) {
+      return [];
+    }
+
+    return await ctx.db
+      .query("presence")
+      .withIndex("by_scene", (q) => q.eq("sceneId", args.sceneId))
+      .collect();
+  },
+});
+
+// Heartbeat and state update in one; omitted fields keep their previous values
+export const updatePresence = mutation({
+  args: {
+    sceneId: v.id("scenes"),
+    cursor: v.optional(v.union(v.object({ x: v.number(), z: v.number() }), v.null())),
+    selectedObjectId: v.optional(v.union(v.id("spaceObjects"), v.null())),
+    camera: v.optional(
+      v.object({
+        radius: v.number(),
+        phi: v.number(),
+        theta: v.number(),
+        target: v.object({ x: v.number(), y: v.number(), z: v.number() }),
+      }),
+    ),
+    isPresenting: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const { user } = await requireSceneRole(ctx, args.sceneId, SCENE_ROLES.VIEWER);
+    const now = Date.now();
+
+    const patch = {
+      name: user.name, // never the email: every member of the scene can read presence rows
+      lastSeen: now,
+      ...(args.cursor !== undefined && { cursor: args.cursor ?? undefined }),
+      ...(args.selectedObjectId !== undefined && { selectedObjectId: args.selectedObjectId ?? undefined }),
+      ...(args.camera !== undefined && { camera: args.camera }),
+      ...(args.isPresenting !== undefined && { isPresenting: args.isPresenting }),
+    };
+
+    const rows = await ctx.db
+      .query("presence")
+      .withIndex("by_scene", (q) => q.eq("sceneId", args.sceneId))
+      .collect();
+
+    // Opportunistically drop expired rows so the table doesn't grow without bound
+    for (const row of rows) {
+      if (row.userId !== user._id && !isPresenceLive(row.lastSeen, now)) {
+        await ctx.db.delete(row._id);
+      }
+    }
+
+    const own = rows.find((row) => row.userId === user._id);
+    if (own) {
+      await ctx.db.patch(own._id, patch);
+      return;
+    }
+
+    await ctx.db.insert("presence", {
+      sceneId: args.sceneId,
+      userId: user._id,
+      ...patch,
+    });
+  },
+});
+
+export const clearPresence = mutation({
+  args: {
+    sceneId: v.id("scenes"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return;
+    }
+
+    const own = await ctx.db
+      .query("presence")
+      .withIndex("by_scene_and_user", (q) => q.eq("sceneId", args.sceneId).eq("userId", user._id))
+      .unique();
+    if (own) {
+      await ctx.db.delete(own._id);
+    }
+  },
+});
@@ -0,0 +1,119 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { MAX_EMITTERS_PER_SCENE, rayEmitterError } from "../lib/rayEmitters";
+import { getSceneAccess, requireSceneRole, touchScene } from "./scenes";
+import { rayEmitterKindValidator, SCENE_ROLES } from "./schema";
+
+const origin = v.object({ x: v.number(), z: v.number() });
+
+const emitterFields = {
+  kind: rayEmitterKindValidator,
+  origin,
+  direction: v.number(),
+  spread: v.number(),
+  rayCount: v.number(),
+  color: v.string(),
+  stepBudget: v.number(),
+};
+
+export const listEmitters = query({
+  args: {
+    sceneId: v.id("scenes"),
+  },
+  handler: async (ctx, args) => {
+    const access = await getSceneAccess(ctx, args.sceneId);
+    if (!access) {
+      return [];
+    }
+
+    return await ctx.db
+      .query("rayEmitters")
+      .withIndex("by_scene", (q) => q.eq("sceneId", args.sceneId))
+      .collect();
+  },
+});
+
+export const createEmitter = mutation({
+  args: {
+    sceneId: v.id("scenes"),
+    ...emitterFields,
+  },
+  handler: async (ctx, args) => {
+    const { user } = await requireSceneRole(ctx, args.sceneId, SCENE_ROLES.EDITOR);
+    const { sceneId, ...fields } = args;
+
+    const error = rayEmitterError(fields, "emitter");
+    if (error) {
+      throw new Error(error);
+    }
+    const existing = await ctx.db
+      .query("rayEmitters")
+      .withIndex("by_scene", (q) => q.eq("sceneId", sceneId))
+      .collect();
+    if (existing.length >= MAX_EMITTERS_PER_SCENE) {
+      throw new Error(`Scenes are limited to ${MAX_EMITTERS_PER_SCENE} light sources`);
+    }
+
+    const emitterId = await ctx.db.insert("rayEmitters", {
+      sceneId,
+      userId: user._id,
+      ...fields,
+      lastEditedBy: user._id,
+      lastEditedAt: Date.now(),
+    });
+    await touchScene(ctx, sceneId);
+    return emitterId;
+  },
+});
+
+// Omitted fields keep their values
+export const updateEmitter = mutation({
+  args: {
+    emitterId: v.id("rayEmitters"),
+    kind: v.optional(rayEmitterKindValidator),
+    origin: v.optional(origin),
+    direction: v.optional(v.number()),
+    spread: v.optional(v.number()),
+    rayCount: v.optional(v.number()),
+    color: v.optional(v.string()),
+    stepBudget: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { emitterId, ...fields } = args;
+    const emitter = await ctx.db.get(emitterId);
+    if (!emitter) {
+      throw new Error("Light source not found or unauthorized");
+    }
+    const { user } = await requireSceneRole(ctx, emitter.sceneId, SCENE_ROLES.EDITOR);
+
+    // Validate against the merged result so e.g. switching to a fan checks the existing spread
+    const error = rayEmitterError({ ...emitter, ...fields }, "emitter");
+    if (error) {
+      throw new Error(error);
+    }
+
+    await ctx.db.patch(emitterId, {
+      ...fields,
+      lastEditedBy: user._id,
+      lastEditedAt: Date.now(),
+    });
+    await touchScene(ctx, emitter.sceneId);
+  },
+});
+
+// Idempotent, like deleteObject
+export const deleteEmitter = mutation({
+  args: {
+    emitterId: v.id("rayEmitters"),
+  },
+  handler: async (ctx, args) => {
+    const emitter = await ctx.db.get(args.emitterId);
+    if (!emitter) {
+      return;
+    }
+    await requireSceneRole(ctx, emitter.sceneId, SCENE_ROLES.EDITOR);
+
+    await ctx.db.delete(args.emitterId);
+    await touchScene(ctx, emitter.sceneId);
+  },
+});
@@ -0,0 +1,502 @@
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { mutation, MutationCtx, query, QueryCtx } from "./_generated/server";
+import { clampGridSettings, GRID_DIVISIONS_MAX, GRID_DIVISIONS_MIN, GRID_EXTENT_MAX, GRID_EXTENT_MIN } from "../lib/gridSettings";
+import { memberRoleValidator, SCENE_ROLES, SceneRole } from "./schema";
+import { getCurrentUser } from "./users";
+
+const DEFAULT_SCENE_NAME = "My Scene";
+const SHARE_TOKEN_BYTES = 16;
+
+// 128 random bits, hex encoded
+const generateShareToken = () => {
+  const bytes = new Uint8Array(SHARE_TOKEN_BYTES);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+};
+
+const ROLE_RANK: Record<SceneRole, number> = {
+  [SCENE_ROLES.VIEWER]: 0,
+  [SCENE_ROLES.EDITOR]: 1,
+  [SCENE_ROLES.OWNER]: 2,
+};
+
+/**
+ * Use this function internally to resolve the signed in user's role in a scene.
+ * Returns null if the user is not signed in, the scene doesn't exist or they have no access.
+ */
+export const getSceneAccess = async (ctx: QueryCtx, sceneId: Id<"scenes">) => {
+  const user = await getCurrentUser(ctx);
+  if (!user) {
+    return null;
+  }
+
+  const scene = await ctx.db.get(sceneId);
+  if (!scene) {
+    return null;
+  }
+  if (scene.userId === user._id) {
+    return { user, scene, role: SCENE_ROLES.OWNER as SceneRole };
+  }
+
+  const membership = await ctx.db
+    .query("sceneMembers")
+    .withIndex("by_scene_and_user", (q) => q.eq("sceneId", sceneId).eq("userId", user._id))
+    .unique();
+  if (!membership) {
+    return null;
+  }
+
+  return { user, scene, role: membership.role as SceneRole };
+};
+
+/**
+ * Use this function internally to guard scene mutations.
+ * Throws unless the signed in user holds at least `minimum` in the scene.
+ */
+export const requireSceneRole = async (ctx: QueryCtx, sceneId: Id<"scenes">, minimum: SceneRole) => {
+  const access = await getSceneAccess(ctx, sceneId);
+  if (!access || ROLE_RANK[access.role] < ROLE_RANK[minimum]) {
+    throw new Error("Scene not found or unauthorized");
+  }
+  return access;
+};
+
+export const getOwnedScene = (ctx: QueryCtx, sceneId: Id<"scenes">) =>
+  requireSceneRole(ctx, sceneId, SCENE_ROLES.OWNER);
+
+// Record that a scene's contents changed
+export const touchScene = async (ctx: MutationCtx, sceneId: Id<"scenes"> | undefined) => {
+  if (!sceneId || !(await ctx.db.get(sceneId))) return;
+  await ctx.db.patch(sceneId, { updatedAt: Date.now() });
+};
+
+// What the scene picker shows; the share link is the owner's to hand out, so nobody else receives it
+const toSceneSummary = (scene: Doc<"scenes">, role: SceneRole) => ({
+  _id: scene._id,
+  name: scene.name,
+  description: scene.description,
+  updatedAt: scene.updatedAt,
+  settings: scene.settings,
+  shareToken: role === SCENE_ROLES.OWNER ? scene.shareToken : undefined,
+  role,
+});
+
+export const listScenes = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return [];
+    }
+
+    const owned = await ctx.db
+      .query("scenes")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    const memberships = await ctx.db
+      .query("sceneMembers")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+    const shared = [];
+    for (const membership of memberships) {
+      const scene = await ctx.db.get(membership.sceneId);
+      if (scene) {
+        shared.push(toSceneSummary(scene, membership.role as SceneRole));
+      }
+    }
+
+    return [...owned.map((scene) => toSceneSummary(scene, SCENE_ROLES.OWNER)), ...shared].sort(
+      (a, b) => b.updatedAt - a.updatedAt,
+    );
+  },
+});
+
+export const createScene = mutation({
+  args: {
+    name: v.string(),
+    description: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("Must be authenticated to create scenes");
+    }
+
+    const now = Date.now();
+    return await ctx.db.insert("scenes", {
+      userId: user._id,
+      name: args.name.trim() || DEFAULT_SCENE_NAME,
+      description: args.description,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+// Returns the user's most recent scene, creating a default one on first use.
+// Objects created before scenes existed are moved into that default scene.
+export const ensureDefaultScene = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("Must be authenticated");
+    }
+
+    const existing = await ctx.db
+      .query("scenes")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+    if (existing.length > 0) {
+      return existing.sort((a, b) => b.updatedAt - a.updatedAt)[0]._id;
+    }
+
+    const now = Date.now();
+    const sceneId = await ctx.db.insert("scenes", {
+      userId: user._id,
+      name: DEFAULT_SCENE_NAME,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const orphans = await ctx.db
+      .query("spaceObjects")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+    for (const object of orphans) {
+      if (!object.sceneId) {
+        await ctx.db.patch(object._id, { sceneId });
+      }
+    }
+
+    return sceneId;
+  },
+});
+
+export const renameScene = mutation({
+  args: {
+    sceneId: v.id("scenes"),
+    name: v.string(),
+    description: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await getOwnedScene(ctx, args.sceneId);
+
+    const name = args.name.trim();
+    if (!name) {
+      throw new Error("Scene name cannot be empty");
+    }
+
+    await ctx.db.patch(args.sceneId, {
+      name,
+      description: args.description,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+export const duplicateScene = mutation({
+  args: {
+    sceneId: v.id("scenes"),
+    name: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    // Any member may copy a scene into a workspace of their own
+    const { user, scene } = await requireSceneRole(ctx, args.sceneId, SCENE_ROLES.VIEWER);
+
+    const now = Date.now();
+    const copyId = await ctx.db.insert("scenes", {
+      userId: user._id,
+      name: args.name?.trim() || `${scene.name} (copy)`,
+      description: scene.description,
+      settings: scene.settings,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const objects = await ctx.db
+      .query("spaceObjects")
+      .withIndex("by_scene", (q) => q.eq("sceneId", args.sceneId))
+      .collect();
+    for (const object of objects) {
+      await ctx.db.insert("spaceObjects", {
+        userId: user._id,
+        sceneId: copyId,
+        type: object.type,
+        mass: object.mass,
+        position: object.position,
+        name: object.name,
+        velocity: object.velocity,
+        lastEditedBy: user._id,
+        lastEditedAt: now,
+      });
+    }
+
+    const emitters = await ctx.db
+      .query("rayEmitters")
+      .withIndex("by_scene", (q) => q.eq("sceneId", args.sceneId))
+      .collect();
+    for (const { kind, origin, direction, spread, rayCount, color, stepBudget } of emitters) {
+      await ctx.db.insert("rayEmitters", {
+        sceneId: copyId,
+        userId: user._id,
+        kind,
+        origin,
+        direction,
+        spread,
+        rayCount,
+        color,
+        stepBudget,
+        lastEditedBy: user._id,
+        lastEditedAt: now,
+      });
+    }
+
+    return copyId;
+  },
+});
+
+export const deleteScene = mutation({
+  args: {
+    sceneId: v.id("scenes"),
+  },
+  handler: async (ctx, args) => {
+    await getOwnedScene(ctx, args.sceneId);
+
+    const objects = await ctx.db
+      .query("spaceObjects")
+      .withIndex("by_scene", (q) => q.eq("sceneId", args.sceneId))
+      .collect();
+    for (const object of objects) {
+      await ctx.db.delete(object._id);
+    }
+
+    // Memberships, presence rows, clear-all snapshots and light sources all belong to the scene
+    for (const table of ["sceneMembers", "presence", "sceneSnapshots", "rayEmitters"] as const) {
+      const rows = await ctx.db
+        .query(table)
+        .withIndex("by_scene", (q) => q.eq("sceneId", args.sceneId))
+        .collect();
+      for (const row of rows) {
+        await ctx.db.delete(row._id);
+      }
+    }
+
+    await ctx.db.delete(args.sceneId);
+  },
+});
+
+// Grid extent and resolution are part of the scene, so every collaborator sees the same sheet
+export const updateSceneSettings = mutation({
+  args: {
+    sceneId: v.id("scenes"),
+    settings: v.object({
+      extent: v.number(),
+      divisions: v.number(),
+    }),
+  },
+  handler: async (ctx, args) => {
+    await requireSceneRole(ctx, args.sceneId, SCENE_ROLES.EDITOR);
+
+    const { extent, divisions } = args.settings;
+    if (!Number.isFinite(extent) || extent < GRID_EXTENT_MIN || extent > GRID_EXTENT_MAX) {
+      throw new Error(`Grid extent must be between ${GRID_EXTENT_MIN} and ${GRID_EXTENT_MAX}`);
+    }
+    if (!Number.isFinite(divisions) || divisions < GRID_DIVISIONS_MIN || divisions > GRID_DIVISIONS_MAX) {
+      throw new Error(`Grid resolution must be between ${GRID_DIVISIONS_MIN} and ${GRID_DIVISIONS_MAX}`);
+    }
+
+    await ctx.db.patch(args.sceneId, {
+      settings: clampGridSettings(args.settings),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+// Publishes the scene under a share token, reusing the existing token if it is already shared
+export const publishScene = mutation({
+  args: {
+    sceneId: v.id("scenes"),
+  },
+  handler: async (ctx, args) => {
+    const { scene } = await getOwnedScene(ctx, args.sceneId);
+    if (scene.shareToken) {
+      return scene.shareToken;
+    }
+
+    const shareToken = generateShareToken();
+    await ctx.db.patch(args.sceneId, { shareToken });
+    return shareToken;
+  },
+});
+
+export const revokeShareLink = mutation({
+  args: {
+    sceneId: v.id("scenes"),
+  },
+  handler: async (ctx, args) => {
+    await getOwnedScene(ctx, args.sceneId);
+    await ctx.db.patch(args.sceneId, { shareToken: undefined });
+  },
+});
+
+// Public, read-only view of a shared scene. Returns null for unknown or revoked tokens.
+export const getSharedScene = query({
+  args: {
+    token: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const scene = await ctx.db
+      .query("scenes")
+      .withIndex("by_share_token", (q) => q.eq("shareToken", args.token))
+      .unique();
+    if (!scene) {
+      return null;
+    }
+
+    const objects = await ctx.db
+      .query("spaceObjects")
+      .withIndex("by_scene", (q) => q.eq("sceneId", scene._id))
+      .collect();
+    const emitters = await ctx.db
+      .query("rayEmitters")
+      .withIndex("by_scene", (q) => q.eq("sceneId", scene._id))
+      .collect();
+
+    return {
+      name: scene.name,
+      description: scene.description,
+      settings: scene.settings,
+      // Owner ids stay private
+      objects: objects.map((object) => ({
+        _id: object._id,
+        type: object.type,
+        mass: object.mass,
+        position: object.position,
+        name: object.name,
+        velocity: object.velocity,
+      })),
+      emitters: emitters.map(({ _id, kind, origin, direction, spread, rayCount, color, stepBudget }) => ({
+        _id,
+        kind,
+        origin,
+        direction,
+        spread,
+        rayCount,
+        color,
+        stepBudget,
+      })),
+    };
+  },
+});
+
+export const listSceneMembers = query({
+  args: {
+    sceneId: v.id("scenes"),
+  },
+  handler: async (ctx, args) => {
+    const access = await getSceneAccess(ctx, args.sceneId);
+    if (!access) {
+      return [];
+    }
+
+    const members = await ctx.db
+      .query("sceneMembers")
+      .withIndex("by_scene", (q) => q.eq("sceneId", args.sceneId))
+      .collect();
+
+    // Only the owner, who invites by email, sees collaborators' addresses
+    const isOwner = access.role === SCENE_ROLES.OWNER;
+    const result = [];
+    for (const member of members) {
+      const user = await ctx.db.get(member.userId);
+      result.push({
+        _id: member._id,
+        userId: member.userId,
+        role: member.role,
+        name: user?.name,
+        email: isOwner ? user?.email : undefined,
+      });
+    }
+    return result;
+  },
+});
+
+// Invites an existing user, by email, as an editor or viewer. Re-inviting updates the role.
+export const addSceneMember = mutation({
+  args: {
+    sceneId: v.id("scenes"),
+    email: v.string(),
+    role: memberRoleValidator,
+  },
+  handler: async (ctx, args) => {
+    const { scene } = await getOwnedScene(ctx, args.sceneId);
+
+    const invitee = await ctx.db
+      .query("users")
+      .withIndex("email", (q) => q.eq("email", args.email.trim()))
+      .first();
+    if (!invitee) {
+      throw new Error("No user with that email");
+    }
+    if (invitee._id === scene.userId) {
+      throw new Error("The owner is already a member");
+    }
+
+    const existing = await ctx.db
+      .query("sceneMembers")
+      .withIndex("by_scene_and_user", (q) => q.eq("sceneId", args.sceneId).eq("userId", invitee._id))
+      .unique();
+    if (existing) {
+      await ctx.db.patch(existing._id, { role: args.role });
+      return existing._id;
+    }
+
+    return await ctx.db.insert("sceneMembers", {
+      sceneId: args.sceneId,
+      userId: invitee._id,
+      role: args.role,
+    });
+  },
+});
+
+export const updateSceneMemberRole = mutation({
+  args: {
+    memberId: v.id("sceneMembers"),
+    role: memberRoleValidator,
+  },
+  handler: async (ctx, args) => {
+    const member = await ctx.db.get(args.memberId);
+    if (!member) {
+      throw new Error("Member not found");
+    }
+    await getOwnedScene(ctx, member.sceneId);
+
+    await ctx.db.patch(args.memberId, { role: args.role });
+  },
+});
+
+// The owner can remove anyone; members can remove themselves to leave a scene
+export const removeSceneMember = mutation({
+  args: {
+    memberId: v.id("sceneMembers"),
+  },
+  handler: async (ctx, args) => {
+    const member = await ctx.db.get(args.memberId);
+    if (!member) {
+      return;
+    }
+
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("Must be authenticated");
+    }
+    if (member.userId !== user._id) {
+      await getOwnedScene(ctx, member.sceneId);
+    }
+
+    await ctx.db.delete(args.memberId);
+  },
+});
@@ -16,6 +16,33 @@ export const roleValidator = v.union(
 );
 export type Role = Infer<typeof roleValidator>;
 
+// per-scene roles. the owner is implicit (scenes.userId); members are editors or viewers
+export const SCENE_ROLES = {
+  OWNER: "owner",
+  EDITOR: "editor",
+  VIEWER: "viewer",
+} as const;
+
+export const sceneRoleValidator = v.union(
+  v.literal(SCENE_ROLES.OWNER),
+  v.literal(SCENE_ROLES.EDITOR),
+  v.literal(SCENE_ROLES.VIEWER),
+);
+export type SceneRole = Infer<typeof sceneRoleValidator>;
+
+export const memberRoleValidator = v.union(
+  v.literal(SCENE_ROLES.EDITOR),
+  v.literal(SCENE_ROLES.VIEWER),
+);
+export type MemberRole = Infer<typeof memberRoleValidator>;
+
+// mirrors RAY_EMITTER_KINDS in lib/rayEmitters
+export const rayEmitterKindValidator = v.union(
+  v.literal("parallel"),
+  v.literal("point"),
+  v.literal("single"),
+);
+
 const schema = defineSchema(
   {
     // default auth tables using convex auth.
@@ -32,9 +59,76 @@ const schema = defineSchema(
       role: v.optional(roleValidator), // role of the user. do not remove
     }).index("email", ["email"]), // index for the email. do not remove or modify
 
+    // Named workspaces, each holding its own set of space objects
+    scenes: defineTable({
+      userId: v.id("users"), // owner
+      name: v.string(),
+      description: v.optional(v.string()),
+      createdAt: v.number(),
+      updatedAt: v.number(), // bumped whenever the scene or one of its objects changes
+      shareToken: v.optional(v.string()), // unguessable token for the public read-only link
+      settings: v.optional(
+        v.object({
+          extent: v.number(), // grid half-width
+          divisions: v.number(), // grid segments per side
+        }),
+      ),
+    })
+      .index("by_user", ["userId"])
+      .index("by_share_token", ["shareToken"]),
+
+    // Objects removed by "clear all", kept so the clear can be undone after a reload
+    sceneSnapshots: defineTable({
+      sceneId: v.id("scenes"),
+      userId: v.id("users"),
+      objects: v.array(
+        v.object({
+          objectId: v.id("spaceObjects"), // id before the clear, used to remap undo history
+          type: v.string(),
+          mass: v.number(),
+          position: v.object({ x: v.number(), y: v.number(), z: v.number() }),
+          name: v.optional(v.string()),
+          velocity: v.optional(v.object({ x: v.number(), y: v.number(), z: v.number() })),
+        }),
+      ),
+      createdAt: v.number(),
+    }).index("by_scene", ["sceneId"]),
+
+    // Collaborators invited to a scene
+    sceneMembers: defineTable({
+      sceneId: v.id("scenes"),
+      userId: v.id("users"),
+      role: memberRoleValidator,
+    })
+      .index("by_scene", ["sceneId"])
+      .index("by_user", ["userId"])
+      .index("by_scene_and_user", ["sceneId", "userId"]),
+
+    // Live collaborator state in a scene, refreshed by heartbeats and treated as gone once stale
+    presence: defineTable({
+      sceneId: v.id("scenes"),
+      userId: v.id("users"),
+      name: v.optional(v.string()),
+      cursor: v.optional(v.object({ x: v.number(), z: v.number() })), // y=0 grid point under the pointer
+      selectedObjectId: v.optional(v.id("spaceObjects")),
+      camera: v.optional(
+        v.object({
+          radius: v.number(),
+          phi: v.number(),
+          theta: v.number(),
+          target: v.object({ x: v.number(), y: v.number(), z: v.number() }),
+        }),
+      ),
+      isPresenting: v.optional(v.boolean()),
+      lastSeen: v.number(),
+    })
+      .index("by_scene", ["sceneId"])
+      .index("by_scene_and_user", ["sceneId", "userId"]),
+
     // Space objects for the spacetime visualizer
     spaceObjects: defineTable({
       userId: v.id("users"),
+      sceneId: v.optional(v.id("scenes")), // unset on objects created before scenes existed
       type: v.string(), // "planet", "star", "blackhole", "neutronstar", "spaceship"
       mass: v.number(), // mass in solar masses
       position: v.object({
@@ -43,7 +137,33 @@ const schema = defineSchema(
         z: v.number(),
       }),
       name: v.optional(v.string()),
-    }).index("by_user", ["userId"]),
+      velocity: v.optional(
+        v.object({
+          x: v.number(),
+          y: v.number(),
+          z: v.number(),
+        }),
+      ), // initial velocity for the n-body simulation, grid units per second
+      lastEditedBy: v.optional(v.id("users")), // last writer, for attribution in shared scenes
+      lastEditedAt: v.optional(v.number()),
+    })
+      .index("by_user", ["userId"])
+      .index("by_scene", ["sceneId"]),
+
+    // Light sources for the geodesic overlay, saved with the scene like its objects
+    rayEmitters: defineTable({
+      sceneId: v.id("scenes"),
+      userId: v.id("users"), // creator
+      kind: rayEmitterKindValidator, // "parallel", "point" or "single"
+      origin: v.object({ x: v.number(), z: v.number() }),
+      direction: v.number(), // radians counterclockwise from +X
+      spread: v.number(), // beam width, or fan angle in radians for point sources
+      rayCount: v.number(),
+      color: v.string(), // #rrggbb
+      stepBudget: v.number(), // integration steps per ray
+      lastEditedBy: v.optional(v.id("users")),
+      lastEditedAt: v.optional(v.number()),
+    }).index("by_scene", ["sceneId"]),
   },
   {
     schemaValidation: false,
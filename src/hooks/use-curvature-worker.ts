@@ -0,0 +1,95 @@
+import { adaptiveGridAxes, computeCurvatureField, GridSpec, PhysicsBody, traceLightSources } from "@/lib/physics";
+import type { CurvatureRequest, CurvatureResult, RayRequest } from "@/workers/curvature.worker";
+import { useCallback, useEffect, useRef } from "react";
+
+export interface CurvatureRequestOptions {
+  transition: boolean; // ease into the new state rather than jump
+  lodDivisions: number | null; // lay out a sheet of this resolution adaptively
+  openingAngle: number; // Barnes–Hut opening angle, 0 for the exact sum
+  rays: RayRequest | null; // light paths to trace through the new field
+}
+
+type CurvatureCallback = (result: CurvatureResult, request: CurvatureRequest, options: CurvatureRequestOptions) => void;
+
+interface PendingRequest {
+  message: CurvatureRequest;
+  options: CurvatureRequestOptions;
+}
+
+/**
+ * Runs `computeCurvatureField`, and traces any requested light paths through its
+ * result, in a Web Worker. Only one request is in flight at a time and requests made
+ * meanwhile replace each other, so during a burst of edits (a drag, a mass being
+ * typed) stale requests are dropped before they are computed and results always
+ * arrive in order.
+ */
+export function useCurvatureWorker(onResult: CurvatureCallback) {
+  const onResultRef = useRef(onResult);
+  onResultRef.current = onResult;
+
+  const workerRef = useRef<Worker | null>(null);
+  const nextIdRef = useRef(0);
+  const inFlightRef = useRef<PendingRequest | null>(null);
+  const queuedRef = useRef<PendingRequest | null>(null);
+
+  useEffect(() => {
+    if (typeof Worker === "undefined") return;
+
+    const worker = new Worker(new URL("../workers/curvature.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (event: MessageEvent<CurvatureResult>) => {
+      const completed = inFlightRef.current;
+      inFlightRef.current = queuedRef.current;
+      queuedRef.current = null;
+      if (inFlightRef.current) {
+        worker.postMessage(inFlightRef.current.message);
+      }
+      if (completed) {
+        onResultRef.current(event.data, completed.message, completed.options);
+      }
+    };
+    workerRef.current = worker;
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      inFlightRef.current = null;
+      queuedRef.current = null;
+    };
+  }, []);
+
+  return useCallback((bodies: ReadonlyArray<PhysicsBody>, grid: GridSpec, options: CurvatureRequestOptions) => {
+    const message: CurvatureRequest = {
+      requestId: ++nextIdRef.current,
+      // Plain copies so only mass and position are structured-cloned
+      bodies: bodies.map((b) => ({ mass: b.mass, position: { x: b.position.x, y: b.position.y, z: b.position.z } })),
+      grid,
+      openingAngle: options.openingAngle,
+      lodDivisions: options.lodDivisions,
+      rays: options.rays,
+    };
+
+    const worker = workerRef.current;
+    if (!worker) {
+      // No worker support (or not started yet): compute inline
+      const { field, mean, maxAbs } = computeCurvatureField(message.bodies, grid, undefined, options.openingAngle);
+      const axes = options.lodDivisions ? adaptiveGridAxes(field, options.lodDivisions) : null;
+      const rays = options.rays
+        ? traceLightSources(message.bodies, field, options.rays.sources, options.rays.physical, options.rays.defaultColor)
+        : null;
+      onResultRef.current({ requestId: message.requestId, field, mean, maxAbs, axes, rays }, message, options);
+      return;
+    }
+
+    const pending = { message, options };
+    if (inFlightRef.current) {
+      // A skipped request still has to carry its transition into the one replacing it
+      const queued = queuedRef.current;
+      queuedRef.current = queued
+        ? { message, options: { ...options, transition: options.transition || queued.options.transition } }
+        : pending;
+      return;
+    }
+    inFlightRef.current = pending;
+    worker.postMessage(message);
+  }, []);
+}
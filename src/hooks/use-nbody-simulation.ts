@@ -0,0 +1,186 @@
+import {
+  advanceSimulation,
+  CollidingBody,
+  CollisionOptions,
+  createSimulationState,
+  GravityModel,
+  MergerEvent,
+  refreshAccelerations,
+  resolveCollisions,
+  SimulationState,
+  Vec3,
+} from "@/lib/physics";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export type SimulatedBody = CollidingBody;
+
+interface SimulationSource {
+  _id: string;
+  type: string;
+  mass: number;
+  position: Vec3;
+  velocity?: Vec3;
+}
+
+// Seconds of simulation time advanced by a single "step"
+const STEP_DURATION = 0.1;
+// How often the elapsed time readout re-renders, in simulation seconds
+const ELAPSED_REPORT_INTERVAL = 0.1;
+
+const toBody = (obj: SimulationSource): SimulatedBody => ({
+  id: obj._id,
+  type: obj.type,
+  mass: obj.mass,
+  position: { ...obj.position },
+  velocity: obj.velocity ? { ...obj.velocity } : { x: 0, y: 0, z: 0 },
+});
+
+interface SimulationOptions {
+  collisions: CollisionOptions | null; // null disables collision handling
+  gravity: GravityModel; // corrections applied on top of Newtonian gravity
+  onMerger?: (merger: MergerEvent) => void;
+  onStep?: (state: SimulationState<SimulatedBody>) => void; // after every substep, once collisions are resolved
+}
+
+/**
+ * Local n-body time evolution over the persisted objects. Stored positions and
+ * velocities are the initial conditions; only mergers are reported back, through
+ * `onMerger`, so the caller can persist them.
+ */
+export function useNBodySimulation(objects: ReadonlyArray<SimulationSource>, options: SimulationOptions) {
+  const stateRef = useRef<SimulationState<SimulatedBody> | null>(null);
+  const objectsRef = useRef(objects);
+  objectsRef.current = objects;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  // Bodies merged away locally whose deletion hasn't round-tripped through the server yet
+  const absorbedIdsRef = useRef<Set<string>>(new Set());
+  // Survivors of those mergers, with the bodies they absorbed; they keep their local mass and type meanwhile
+  const pendingSurvivorsRef = useRef<Map<string, string[]>>(new Map());
+
+  const [isPlaying, setIsPlaying] = useState(false);
+  const isPlayingRef = useRef(false);
+  const [timeScale, setTimeScale] = useState(1);
+  const timeScaleRef = useRef(1);
+  const [elapsed, setElapsed] = useState(0);
+
+  useEffect(() => {
+    isPlayingRef.current = isPlaying;
+  }, [isPlaying]);
+
+  useEffect(() => {
+    timeScaleRef.current = timeScale;
+  }, [timeScale]);
+
+  // Reconcile a running simulation with realtime adds, deletes and mass edits
+  useEffect(() => {
+    const state = stateRef.current;
+    if (!state) return;
+
+    const liveIds = new Set(objects.map((obj) => obj._id));
+    for (const id of absorbedIdsRef.current) {
+      if (!liveIds.has(id)) absorbedIdsRef.current.delete(id);
+    }
+    for (const [survivorId, absorbedIds] of pendingSurvivorsRef.current) {
+      const pending = absorbedIds.filter((id) => liveIds.has(id));
+      if (pending.length > 0) pendingSurvivorsRef.current.set(survivorId, pending);
+      else pendingSurvivorsRef.current.delete(survivorId);
+    }
+
+    const byId = new Map(state.bodies.map((b) => [b.id, b]));
+    state.bodies = objects
+      .filter((obj) => !absorbedIdsRef.current.has(obj._id))
+      .map((obj) => {
+        const body = byId.get(obj._id);
+        if (!body) return toBody(obj);
+        if (!pendingSurvivorsRef.current.has(obj._id)) {
+          body.mass = obj.mass;
+          body.type = obj.type;
+        }
+        return body;
+      });
+    refreshAccelerations(state);
+  }, [objects]);
+
+  const handleStep = useCallback((state: SimulationState<SimulatedBody>) => {
+    const { collisions, onMerger, onStep } = optionsRef.current;
+    if (collisions) {
+      const { bodies, mergers } = resolveCollisions(state.bodies, collisions);
+      if (bodies !== state.bodies) {
+        state.bodies = bodies;
+        refreshAccelerations(state);
+      }
+      for (const merger of mergers) {
+        absorbedIdsRef.current.add(merger.absorbedId);
+        const absorbed = pendingSurvivorsRef.current.get(merger.survivorId) ?? [];
+        pendingSurvivorsRef.current.set(merger.survivorId, [...absorbed, merger.absorbedId]);
+        onMerger?.(merger);
+      }
+    }
+    onStep?.(state);
+  }, []);
+
+  const ensureState = useCallback(() => {
+    const { gravity } = optionsRef.current;
+    const state = stateRef.current;
+    if (!state) {
+      return (stateRef.current = createSimulationState(objectsRef.current.map(toBody), gravity));
+    }
+    if (state.postNewtonian !== gravity.postNewtonian || state.radiationReaction !== gravity.radiationReaction) {
+      // Switching gravity models mid-run continues from the current positions and velocities
+      state.postNewtonian = gravity.postNewtonian;
+      state.radiationReaction = gravity.radiationReaction;
+      refreshAccelerations(state);
+    }
+    return state;
+  }, []);
+
+  const integrate = useCallback(
+    (seconds: number) => {
+      const state = ensureState();
+      const before = state.time;
+      advanceSimulation(state, seconds, handleStep);
+      if (Math.floor(state.time / ELAPSED_REPORT_INTERVAL) !== Math.floor(before / ELAPSED_REPORT_INTERVAL)) {
+        setElapsed(state.time);
+      }
+    },
+    [ensureState, handleStep],
+  );
+
+  // Called from the render loop with wall-clock seconds; returns true if bodies moved
+  const advance = useCallback(
+    (wallSeconds: number) => {
+      if (!isPlayingRef.current) return false;
+      integrate(wallSeconds * timeScaleRef.current);
+      return true;
+    },
+    [integrate],
+  );
+
+  const step = useCallback(() => {
+    setIsPlaying(false);
+    isPlayingRef.current = false;
+    integrate(STEP_DURATION * timeScaleRef.current);
+  }, [integrate]);
+
+  const reset = useCallback(() => {
+    setIsPlaying(false);
+    isPlayingRef.current = false;
+    stateRef.current = null;
+    absorbedIdsRef.current.clear();
+    pendingSurvivorsRef.current.clear();
+    setElapsed(0);
+  }, []);
+
+  return {
+    stateRef,
+    isPlaying,
+    setIsPlaying,
+    timeScale,
+    setTimeScale,
+    elapsed,
+    advance,
+    step,
+    reset,
+  };
+}
@@ -0,0 +1,163 @@
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { Vec3 } from "@/lib/physics";
+import { useMutation } from "convex/react";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export interface ObjectFields {
+  type: string;
+  mass: number;
+  position: Vec3;
+  name?: string;
+  velocity?: Vec3;
+}
+
+// State of one object before or after a command; null fields means the object doesn't exist
+export interface ObjectState {
+  id: string;
+  fields: ObjectFields | null;
+}
+
+export interface UndoableCommand {
+  label: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  // Consecutive commands with the same key merge, e.g. the debounced writes of one drag
+  coalesceKey?: string;
+}
+
+interface HistoryEntry extends UndoableCommand {
+  recordedAt: number;
+}
+
+const MAX_HISTORY = 100;
+// Commands sharing a coalesce key merge when recorded within this window
+const COALESCE_WINDOW_MS = 1000;
+
+export const toObjectFields = (object: ObjectFields): ObjectFields => ({
+  type: object.type,
+  mass: object.mass,
+  position: { ...object.position },
+  ...(object.name !== undefined && { name: object.name }),
+  ...(object.velocity && { velocity: { ...object.velocity } }),
+});
+
+/**
+ * Per-scene undo/redo stack of object edits. Undoing a delete recreates the object
+ * under a new id, so commands refer to objects by the id they had when recorded and
+ * `resolveId` follows the chain of replacements.
+ */
+export function useSceneHistory(sceneId: Id<"scenes"> | null, enabled: boolean) {
+  const restoreObjects = useMutation(api.objects.restoreObjects);
+
+  const undoStackRef = useRef<HistoryEntry[]>([]);
+  const redoStackRef = useRef<HistoryEntry[]>([]);
+  const aliasesRef = useRef<Map<string, string>>(new Map());
+  const busyRef = useRef(false);
+  // Bumped to re-render when the stacks change
+  const [, setVersion] = useState(0);
+  const bump = useCallback(() => setVersion((n) => n + 1), []);
+
+  useEffect(() => {
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+    aliasesRef.current.clear();
+    bump();
+  }, [sceneId, bump]);
+
+  const resolveId = useCallback((id: string) => {
+    let current = id;
+    for (let next = aliasesRef.current.get(current); next; next = aliasesRef.current.get(current)) {
+      current = next;
+    }
+    return current as Id<"spaceObjects">;
+  }, []);
+
+  const aliasId = useCallback((from: string, to: string) => {
+    if (from !== to) aliasesRef.current.set(from, to);
+  }, []);
+
+  const record = useCallback(
+    (command: UndoableCommand) => {
+      const now = Date.now();
+      const stack = undoStackRef.current;
+      const last = stack[stack.length - 1];
+      if (command.coalesceKey && last?.coalesceKey === command.coalesceKey && now - last.recordedAt < COALESCE_WINDOW_MS) {
+        stack[stack.length - 1] = { ...command, undo: last.undo, recordedAt: now };
+      } else {
+        stack.push({ ...command, recordedAt: now });
+        if (stack.length > MAX_HISTORY) stack.shift();
+      }
+      redoStackRef.current = [];
+      bump();
+    },
+    [bump],
+  );
+
+  // Moves the listed objects to the given states in one transaction
+  const applyStates = useCallback(
+    async (states: ObjectState[]) => {
+      if (!sceneId || states.length === 0) return;
+      const ids = await restoreObjects({
+        sceneId,
+        changes: states.map((s) => ({ objectId: resolveId(s.id), state: s.fields })),
+      });
+      states.forEach((s, i) => {
+        const id = ids[i];
+        if (id) aliasId(resolveId(s.id), id);
+      });
+    },
+    [sceneId, restoreObjects, resolveId, aliasId],
+  );
+
+  // Records a change described by object states before and after it
+  const recordChange = useCallback(
+    (label: string, before: ObjectState[], after: ObjectState[], coalesceKey?: string) => {
+      record({
+        label,
+        undo: () => applyStates(before),
+        redo: () => applyStates(after),
+        coalesceKey,
+      });
+    },
+    [record, applyStates],
+  );
+
+  const run = useCallback(
+    async (from: HistoryEntry[], to: HistoryEntry[], action: "undo" | "redo") => {
+      if (busyRef.current) return null;
+      const entry = from.pop();
+      if (!entry) return null;
+      busyRef.current = true;
+      try {
+        await entry[action]();
+        to.push({ ...entry, coalesceKey: undefined });
+        return entry.label;
+      } catch (error) {
+        // Leave the stacks as they were so the user can retry
+        from.push(entry);
+        throw error;
+      } finally {
+        busyRef.current = false;
+        bump();
+      }
+    },
+    [bump],
+  );
+
+  const undo = useCallback(() => run(undoStackRef.current, redoStackRef.current, "undo"), [run]);
+  const redo = useCallback(() => run(redoStackRef.current, undoStackRef.current, "redo"), [run]);
+
+  return {
+    record,
+    recordChange,
+    resolveId,
+    aliasId,
+    undo,
+    redo,
+    canUndo: enabled && undoStackRef.current.length > 0,
+    canRedo: enabled && redoStackRef.current.length > 0,
+    undoLabel: undoStackRef.current[undoStackRef.current.length - 1]?.label,
+    redoLabel: redoStackRef.current[redoStackRef.current.length - 1]?.label,
+  };
+}
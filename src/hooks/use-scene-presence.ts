@@ -0,0 +1,101 @@
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { isPresenceLive, PRESENCE_TTL_MS } from "@/lib/presence";
+import { useMutation, useQuery } from "convex/react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+export interface PresenceCamera {
+  radius: number;
+  phi: number;
+  theta: number;
+  target: { x: number; y: number; z: number };
+}
+
+export interface PresenceUpdate {
+  cursor?: { x: number; z: number } | null;
+  selectedObjectId?: Id<"spaceObjects"> | null;
+  camera?: PresenceCamera;
+  isPresenting?: boolean;
+}
+
+// Keeps the row alive while the user is idle; must stay well under PRESENCE_TTL_MS
+const HEARTBEAT_INTERVAL_MS = 5000;
+// Cursor and camera updates are coalesced into at most one mutation per interval
+const PUBLISH_INTERVAL_MS = 100;
+
+// Stable per-user hue so everyone sees the same color for a given collaborator
+export const presenceColor = (userId: string) => {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return `hsl(${Math.abs(hash) % 360}, 85%, 60%)`;
+};
+
+/**
+ * Shares the local user's cursor, selection and camera with everyone else in the
+ * scene and returns the other participants. Updates are best-effort: a dropped
+ * one is superseded by the next heartbeat.
+ */
+export function useScenePresence(sceneId: Id<"scenes"> | null, userId: Id<"users"> | undefined) {
+  const rows = useQuery(api.presence.listPresence, sceneId ? { sceneId } : "skip");
+  const updatePresence = useMutation(api.presence.updatePresence);
+  const clearPresence = useMutation(api.presence.clearPresence);
+
+  const sceneIdRef = useRef(sceneId);
+  sceneIdRef.current = sceneId;
+  const pendingRef = useRef<PresenceUpdate>({});
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const flush = useCallback(() => {
+    timerRef.current = null;
+    const currentSceneId = sceneIdRef.current;
+    if (!currentSceneId) return;
+    const update = pendingRef.current;
+    pendingRef.current = {};
+    updatePresence({ sceneId: currentSceneId, ...update }).catch(() => {});
+  }, [updatePresence]);
+
+  const publish = useCallback(
+    (update: PresenceUpdate) => {
+      pendingRef.current = { ...pendingRef.current, ...update };
+      if (!timerRef.current) {
+        timerRef.current = setTimeout(flush, PUBLISH_INTERVAL_MS);
+      }
+    },
+    [flush],
+  );
+
+  useEffect(() => {
+    if (!sceneId) return;
+    publish({});
+    const interval = setInterval(() => publish({}), HEARTBEAT_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+        timerRef.current = null;
+      }
+      pendingRef.current = {};
+      clearPresence({ sceneId }).catch(() => {});
+    };
+  }, [sceneId, publish, clearPresence]);
+
+  // Rows come back until someone deletes them, so participants who left without clearing theirs are
+  // dropped here once their heartbeat is older than the TTL, re-checked when the next one expires
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const expiries = (rows ?? []).map((row) => row.lastSeen + PRESENCE_TTL_MS).filter((expiry) => expiry > now);
+    if (expiries.length === 0) return;
+    const timer = setTimeout(() => setNow(Date.now()), Math.min(...expiries) - Date.now());
+    return () => clearTimeout(timer);
+  }, [rows, now]);
+
+  const others = useMemo(
+    () => (rows ?? []).filter((row) => row.userId !== userId && isPresenceLive(row.lastSeen, now)),
+    [rows, userId, now],
+  );
+
+  return { others, publish };
+}
@@ -0,0 +1,285 @@
+import {
+  CURVATURE_SCALE,
+  DILATION_DECADES,
+  GRAVITATIONAL_CONSTANT,
+  PhysicsBody,
+  SCHWARZSCHILD_SCALE,
+  SPEED_OF_LIGHT,
+} from "@/lib/physics";
+import * as THREE from "three";
+
+// Capacity of the body textures; comfortably above the server's per-scene object cap. The
+// sheet sums every body per vertex on the GPU, so this bounds a scene's size even though the
+// CPU field behind geodesics and grid detail goes through the Barnes–Hut tree.
+export const MAX_SHADER_BODIES = 512;
+// Duration of the eased blend between two curvature states
+export const CURVATURE_TRANSITION_MS = 400;
+
+// potential: the mean-centered weak-field potential scaled by CURVATURE_SCALE;
+// embedding: Flamm's paraboloid, the geometry of a Schwarzschild spatial slice
+export type SheetShape = "potential" | "embedding";
+
+// potential: normalized |potential|; clockRate: time dilation relative to a distant observer
+export type HeatmapMode = "potential" | "clockRate";
+
+const HEATMAP_MODE_INDEX: Record<HeatmapMode, number> = { potential: 0, clockRate: 1 };
+
+const HEAT_LUT_SIZE = 256;
+
+// Heatmap color (blue->cyan->yellow->red) for normalized heat t in [0, 1]
+export function heatColor(t: number, target: THREE.Color = new THREE.Color()): THREE.Color {
+  return target.setHSL((220 - 210 * t) / 360, 0.85, 0.55 - 0.1 * t);
+}
+
+const createHeatLut = () => {
+  const data = new Float32Array(HEAT_LUT_SIZE * 4);
+  const color = new THREE.Color();
+  for (let i = 0; i < HEAT_LUT_SIZE; i++) {
+    heatColor(i / (HEAT_LUT_SIZE - 1), color);
+    data.set([color.r, color.g, color.b, 1], i * 4);
+  }
+  const texture = new THREE.DataTexture(data, HEAT_LUT_SIZE, 1, THREE.RGBAFormat, THREE.FloatType);
+  // Float textures aren't linearly filterable everywhere; 256 levels don't need it
+  texture.minFilter = THREE.NearestFilter;
+  texture.magFilter = THREE.NearestFilter;
+  texture.needsUpdate = true;
+  return texture;
+};
+
+// One texel per body: (x, z, mass, unused)
+const createBodyTexture = () => {
+  const texture = new THREE.DataTexture(
+    new Float32Array(MAX_SHADER_BODIES * 4),
+    MAX_SHADER_BODIES,
+    1,
+    THREE.RGBAFormat,
+    THREE.FloatType,
+  );
+  texture.needsUpdate = true;
+  return texture;
+};
+
+export type CurvatureUniforms = ReturnType<typeof createCurvatureUniforms>;
+
+/**
+ * Uniforms shared by the grid and heatmap materials. The shader blends from the
+ * `uPrev*` state to the current one as `uBlend` goes from 0 to 1.
+ */
+export const createCurvatureUniforms = () => ({
+  uBodies: { value: createBodyTexture() },
+  uBodyCount: { value: 0 },
+  uMean: { value: 0 },
+  uMaxAbs: { value: 0 },
+  uPrevBodies: { value: createBodyTexture() },
+  uPrevBodyCount: { value: 0 },
+  uPrevMean: { value: 0 },
+  uPrevMaxAbs: { value: 0 },
+  uBlend: { value: 1 },
+  uScale: { value: CURVATURE_SCALE },
+  uSchwarzschildScale: { value: SCHWARZSCHILD_SCALE },
+  uHeatLut: { value: createHeatLut() },
+  uHeatMode: { value: HEATMAP_MODE_INDEX.potential },
+  uEmbedding: { value: 0 }, // 0 shows the potential sheet, 1 the embedding diagram, between them a blend
+  uEmbeddingReach: { value: 0 }, // distance from a body at which its embedding meets the rim
+});
+
+// Embedding depressions are measured from the sheet's corners, so the whole sheet lies below its rim
+export function setEmbeddingReach(uniforms: CurvatureUniforms, halfExtent: number) {
+  uniforms.uEmbeddingReach.value = halfExtent * Math.SQRT2;
+}
+
+// Moves the sheet `step` of the way from one shape toward `shape`
+export function easeSheetShape(uniforms: CurvatureUniforms, shape: SheetShape, step: number) {
+  const target = shape === "embedding" ? 1 : 0;
+  const current = uniforms.uEmbedding.value;
+  uniforms.uEmbedding.value = current < target ? Math.min(target, current + step) : Math.max(target, current - step);
+}
+
+export function setHeatmapMode(uniforms: CurvatureUniforms, mode: HeatmapMode) {
+  uniforms.uHeatMode.value = HEATMAP_MODE_INDEX[mode];
+}
+
+/**
+ * Makes `bodies` the new target state. The current state becomes the previous one,
+ * so the sheet eases across unless `transition` is false (simulation frames, drags),
+ * in which case it jumps. Throws rather than drop bodies past MAX_SHADER_BODIES.
+ */
+export function setCurvatureTarget(
+  uniforms: CurvatureUniforms,
+  bodies: ReadonlyArray<PhysicsBody>,
+  mean: number,
+  maxAbs: number,
+  transition: boolean,
+) {
+  if (bodies.length > MAX_SHADER_BODIES) {
+    throw new RangeError(`The sheet shader holds at most ${MAX_SHADER_BODIES} bodies, got ${bodies.length}`);
+  }
+
+  if (transition) {
+    const previous = uniforms.uPrevBodies.value;
+    uniforms.uPrevBodies.value = uniforms.uBodies.value;
+    uniforms.uPrevBodyCount.value = uniforms.uBodyCount.value;
+    uniforms.uPrevMean.value = uniforms.uMean.value;
+    uniforms.uPrevMaxAbs.value = uniforms.uMaxAbs.value;
+    uniforms.uBodies.value = previous;
+    uniforms.uBlend.value = 0;
+  } else {
+    uniforms.uBlend.value = 1;
+  }
+
+  const texture = uniforms.uBodies.value;
+  const data = texture.image.data as Float32Array;
+  const count = bodies.length;
+  for (let i = 0; i < count; i++) {
+    data[i * 4] = bodies[i].position.x;
+    data[i * 4 + 1] = bodies[i].position.z;
+    data[i * 4 + 2] = bodies[i].mass;
+  }
+  texture.needsUpdate = true;
+  uniforms.uBodyCount.value = count;
+  uniforms.uMean.value = mean;
+  uniforms.uMaxAbs.value = maxAbs;
+}
+
+// Same weak-field potential as `pointPotential`, evaluated per vertex; in clock rate
+// mode the heat is `dilationHeat` of `clockRate` instead. The embedding diagram's
+// displacement is `embeddingDepth`.
+const vertexShader = /* glsl */ `
+  #define MAX_BODIES ${MAX_SHADER_BODIES}
+  #define HORIZON_SCALE ${((2 * GRAVITATIONAL_CONSTANT) / (SPEED_OF_LIGHT * SPEED_OF_LIGHT)).toExponential(8)}
+  #define DILATION_DECADES ${DILATION_DECADES.toFixed(1)}
+
+  uniform sampler2D uBodies;
+  uniform int uBodyCount;
+  uniform float uMean;
+  uniform float uMaxAbs;
+  uniform sampler2D uPrevBodies;
+  uniform int uPrevBodyCount;
+  uniform float uPrevMean;
+  uniform float uPrevMaxAbs;
+  uniform float uBlend;
+  uniform float uScale;
+  uniform float uSchwarzschildScale;
+  uniform int uHeatMode;
+  uniform float uEmbedding;
+  uniform float uEmbeddingReach;
+
+  varying float vHeat;
+
+  float potentialAt(sampler2D bodies, int count, vec2 p) {
+    float sum = 0.0;
+    for (int i = 0; i < MAX_BODIES; i++) {
+      if (i >= count) break;
+      vec4 body = texelFetch(bodies, ivec2(i, 0), 0);
+      float mass = max(body.z, 0.000001);
+      sum += mass / max(distance(p, body.xy), uSchwarzschildScale * mass);
+    }
+    return sum;
+  }
+
+  // Slowdown 1 - sqrt(1 - 2Φ/c²) on a log scale, written to keep precision when 2Φ/c² is tiny
+  float dilationHeat(sampler2D bodies, int count, vec2 p) {
+    float ratio = 0.0;
+    for (int i = 0; i < MAX_BODIES; i++) {
+      if (i >= count) break;
+      vec4 body = texelFetch(bodies, ivec2(i, 0), 0);
+      ratio += HORIZON_SCALE * body.z / max(distance(p, body.xy), 0.000001);
+    }
+    if (ratio >= 1.0) return 1.0;
+    float slowdown = ratio / (1.0 + sqrt(1.0 - ratio));
+    return slowdown > 0.0 ? clamp(1.0 + log(slowdown) / (DILATION_DECADES * log(10.0)), 0.0, 1.0) : 0.0;
+  }
+
+  float flammHeight(float rs, float r) {
+    return 2.0 * sqrt(rs * max(r - rs, 0.0));
+  }
+
+  float embeddingDepth(sampler2D bodies, int count, vec2 p) {
+    float depth = 0.0;
+    for (int i = 0; i < MAX_BODIES; i++) {
+      if (i >= count) break;
+      vec4 body = texelFetch(bodies, ivec2(i, 0), 0);
+      float rs = HORIZON_SCALE * body.z;
+      depth += max(flammHeight(rs, uEmbeddingReach) - flammHeight(rs, distance(p, body.xy)), 0.0);
+    }
+    return depth;
+  }
+
+  void main() {
+    vec2 p = position.xz;
+    float t = smoothstep(0.0, 1.0, uBlend);
+    float centered = potentialAt(uBodies, uBodyCount, p) - uMean;
+    float maxAbs = uMaxAbs;
+    if (t < 1.0) {
+      centered = mix(potentialAt(uPrevBodies, uPrevBodyCount, p) - uPrevMean, centered, t);
+      maxAbs = mix(uPrevMaxAbs, uMaxAbs, t);
+    }
+
+    if (uHeatMode == 1) {
+      vHeat = dilationHeat(uBodies, uBodyCount, p);
+      if (t < 1.0) vHeat = mix(dilationHeat(uPrevBodies, uPrevBodyCount, p), vHeat, t);
+    } else {
+      vHeat = maxAbs > 0.000001 ? clamp(abs(centered) / maxAbs, 0.0, 1.0) : 0.0;
+    }
+    float offset = -uScale * centered;
+    if (uEmbedding > 0.0) {
+      float depth = embeddingDepth(uBodies, uBodyCount, p);
+      if (t < 1.0) depth = mix(embeddingDepth(uPrevBodies, uPrevBodyCount, p), depth, t);
+      offset = mix(offset, -depth, smoothstep(0.0, 1.0, uEmbedding));
+    }
+
+    vec3 displaced = vec3(position.x, position.y + offset, position.z);
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(displaced, 1.0);
+  }
+`;
+
+const gridFragmentShader = /* glsl */ `
+  uniform vec3 uColor;
+  uniform float uOpacity;
+
+  void main() {
+    gl_FragColor = vec4(uColor, uOpacity);
+    #include <colorspace_fragment>
+  }
+`;
+
+const heatmapFragmentShader = /* glsl */ `
+  uniform sampler2D uHeatLut;
+  uniform float uOpacity;
+
+  varying float vHeat;
+
+  void main() {
+    gl_FragColor = vec4(texture2D(uHeatLut, vec2(vHeat, 0.5)).rgb, uOpacity);
+    #include <colorspace_fragment>
+  }
+`;
+
+export function createGridMaterial(uniforms: CurvatureUniforms) {
+  return new THREE.ShaderMaterial({
+    uniforms: {
+      ...uniforms,
+      uColor: { value: new THREE.Color(0x444444) },
+      uOpacity: { value: 0.6 },
+    },
+    vertexShader,
+    fragmentShader: gridFragmentShader,
+    wireframe: true,
+    transparent: true,
+  });
+}
+
+export function createHeatmapMaterial(uniforms: CurvatureUniforms) {
+  return new THREE.ShaderMaterial({
+    uniforms: {
+      ...uniforms,
+      uOpacity: { value: 0.35 },
+    },
+    vertexShader,
+    fragmentShader: heatmapFragmentShader,
+    transparent: true,
+    side: THREE.DoubleSide,
+    // Prevent the heatmap surface from occluding objects
+    depthWrite: false,
+  });
+}
@@ -0,0 +1,23 @@
+// Shared by the client and Convex functions, so this module must stay free of path aliases
+
+export interface GridSettings {
+  extent: number; // half-width of the sheet in scene units
+  divisions: number; // segments per side of the rendered sheet
+}
+
+export const DEFAULT_GRID_SETTINGS: GridSettings = { extent: 20, divisions: 256 };
+
+export const GRID_EXTENT_MIN = 5;
+export const GRID_EXTENT_MAX = 200;
+export const GRID_DIVISIONS_MIN = 16;
+export const GRID_DIVISIONS_MAX = 512;
+
+// The CPU field behind geodesics and shader normalization doesn't need the full sheet resolution
+export const MAX_FIELD_DIVISIONS = 128;
+
+export function clampGridSettings(settings: GridSettings): GridSettings {
+  return {
+    extent: Math.min(GRID_EXTENT_MAX, Math.max(GRID_EXTENT_MIN, settings.extent)),
+    divisions: Math.round(Math.min(GRID_DIVISIONS_MAX, Math.max(GRID_DIVISIONS_MIN, settings.divisions))),
+  };
+}
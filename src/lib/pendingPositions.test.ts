@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createPendingPositions, POSITION_WRITE_DELAY_MS } from "./pendingPositions";
+
+const at = (x: number) => ({ x, y: 0, z: 0 });
+
+describe("pending positions", () => {
+  // Stands in for the server: the position it stores, and what the client shows for the object
+  let server = at(0);
+  const written: number[] = [];
+  const write = async (_id: string, position: { x: number; y: number; z: number }) => {
+    written.push(position.x);
+    server = position;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    server = at(0);
+    written.length = 0;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("shows server changes after a drag that settled before its release", async () => {
+    const pending = createPendingPositions(write);
+    const shown = () => pending.get("a") ?? server;
+
+    pending.move("a", at(1));
+    pending.move("a", at(2));
+    expect(shown()).toEqual(at(2));
+
+    await vi.advanceTimersByTimeAsync(POSITION_WRITE_DELAY_MS + 50);
+    expect(written).toEqual([2]);
+    pending.release("a");
+
+    // An undo, a collaborator or a snapshot restore moves the object on the server
+    server = at(-5);
+    expect(shown()).toEqual(at(-5));
+  });
+
+  it("writes a debounced position on release and forgets it once the write lands", async () => {
+    const pending = createPendingPositions(write);
+
+    pending.move("a", at(3));
+    pending.release("a");
+    expect(written).toEqual([3]);
+    expect(pending.get("a")).toEqual(at(3));
+
+    await vi.runAllTimersAsync();
+    expect(pending.get("a")).toBeUndefined();
+    expect(written).toEqual([3]);
+  });
+
+  it("keeps the entry of an object that is grabbed again before its write lands", async () => {
+    let finish = () => {};
+    const pending = createPendingPositions(() => new Promise<void>((resolve) => (finish = resolve)));
+
+    pending.move("a", at(1));
+    pending.release("a");
+    pending.move("a", at(4));
+    finish();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(pending.get("a")).toEqual(at(4));
+  });
+});
@@ -0,0 +1,65 @@
+import type { Vec3 } from "./physics";
+
+// Quiet period after the last move before a dragged position is written
+export const POSITION_WRITE_DELAY_MS = 120;
+
+/**
+ * Optimistic positions of dragged objects. Moves are shown at once and written after
+ * a quiet period; once the drag is released and its last write has settled, the
+ * entry is dropped so the server's position shows through again.
+ */
+export interface PendingPositions {
+  get(id: string): Vec3 | undefined;
+  move(id: string, position: Vec3): void;
+  // Ends the drag: writes a debounced position straight away and forgets the entry once it lands
+  release(id: string): void;
+}
+
+// `write` reports its own failures; it should not reject
+export function createPendingPositions(
+  write: (id: string, position: Vec3) => Promise<void>,
+  delay = POSITION_WRITE_DELAY_MS,
+): PendingPositions {
+  const positions = new Map<string, Vec3>();
+  const scheduled = new Map<string, ReturnType<typeof setTimeout>>();
+  const inFlight = new Map<string, Promise<void>>();
+  const released = new Set<string>();
+
+  const settle = (id: string) => {
+    if (!released.has(id) || scheduled.has(id) || inFlight.has(id)) return;
+    released.delete(id);
+    positions.delete(id);
+  };
+
+  const flush = (id: string) => {
+    const timer = scheduled.get(id);
+    const position = positions.get(id);
+    if (timer === undefined || !position) return;
+    clearTimeout(timer);
+    scheduled.delete(id);
+
+    // The query already reflects the write once the mutation resolves
+    const pending: Promise<void> = write(id, position).finally(() => {
+      if (inFlight.get(id) !== pending) return;
+      inFlight.delete(id);
+      settle(id);
+    });
+    inFlight.set(id, pending);
+  };
+
+  return {
+    get: (id) => positions.get(id),
+    move(id, position) {
+      released.delete(id);
+      positions.set(id, position);
+      const timer = scheduled.get(id);
+      if (timer !== undefined) clearTimeout(timer);
+      scheduled.set(id, setTimeout(() => flush(id), delay));
+    },
+    release(id) {
+      released.add(id);
+      flush(id);
+      settle(id);
+    },
+  };
+}
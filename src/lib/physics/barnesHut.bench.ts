@@ -0,0 +1,59 @@
+import { bench, describe } from "vitest";
+import { computeCurvatureField } from "./field";
+import type { GridSpec, PhysicsBody } from "./types";
+
+// Disc galaxy of a few thousand stars around a heavy core
+function galaxy(count: number): PhysicsBody[] {
+  let state = 42;
+  const random = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+  const stars = Array.from({ length: count }, () => {
+    const r = 1 + 15 * random() * random();
+    const angle = random() * Math.PI * 2;
+    return { mass: 0.1 + random(), position: { x: r * Math.cos(angle), y: 0, z: r * Math.sin(angle) } };
+  });
+  return [{ mass: 5000, position: { x: 0, y: 0, z: 0 } }, ...stars];
+}
+
+// Largest relative error of the tree-summed field against the exact one, over every grid vertex
+function maxRelativeError(bodies: PhysicsBody[], grid: GridSpec, openingAngle: number): number {
+  const exact = computeCurvatureField(bodies, grid, undefined, 0);
+  const approximate = computeCurvatureField(bodies, grid, undefined, openingAngle);
+  let worst = 0;
+  for (let i = 0; i < exact.field.values.length; i++) {
+    // Compare raw potentials; the centered values cross zero
+    const reference = exact.field.values[i] + exact.mean;
+    const value = approximate.field.values[i] + approximate.mean;
+    worst = Math.max(worst, Math.abs(value - reference) / reference);
+  }
+  return worst;
+}
+
+// Error each opening angle may reach on these galaxies; the default stays within a percent, as in barnesHut.test.ts
+const ERROR_BOUNDS = [
+  { openingAngle: 0.5, bound: 0.01 },
+  { openingAngle: 1, bound: 0.02 },
+];
+
+// Run with `npm run bench`. The error of each configuration is checked and reported before it is timed.
+describe.each([1000, 4000])("curvature field of %i bodies on a 128² grid", (count) => {
+  const bodies = galaxy(count);
+  const grid = { halfExtent: 20, divisions: 128 };
+  const options = { iterations: 5, time: 0 };
+
+  bench("exact sum", () => void computeCurvatureField(bodies, grid, undefined, 0), options);
+  for (const { openingAngle, bound } of ERROR_BOUNDS) {
+    const error = maxRelativeError(bodies, grid, openingAngle);
+    if (error > bound) {
+      const percent = (error * 100).toFixed(2);
+      throw new Error(`θ = ${openingAngle} is off by ${percent}% at ${count} bodies, over the ${bound * 100}% bound`);
+    }
+    bench(
+      `Barnes–Hut θ = ${openingAngle} (max error ${(error * 100).toFixed(3)}%)`,
+      () => void computeCurvatureField(bodies, grid, undefined, openingAngle),
+      options,
+    );
+  }
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { buildQuadTree, treePotential } from "./barnesHut";
+import { computeCurvatureField, potentialAt } from "./field";
+import type { PhysicsBody } from "./types";
+
+// Deterministic Plummer-like cluster: dense core, sparse halo
+function cluster(count: number, radius: number, seed = 1): PhysicsBody[] {
+  let state = seed;
+  const random = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+  return Array.from({ length: count }, () => {
+    const r = radius * Math.sqrt(random()) * random();
+    const angle = random() * Math.PI * 2;
+    return { mass: 0.5 + random() * 2, position: { x: r * Math.cos(angle), y: 0, z: r * Math.sin(angle) } };
+  });
+}
+
+const samples = Array.from({ length: 41 }, (_, i) => -20 + i);
+
+const maxRelativeError = (bodies: PhysicsBody[], openingAngle: number) => {
+  const tree = buildQuadTree(bodies);
+  let worst = 0;
+  for (const x of samples) {
+    for (const z of samples) {
+      const exact = potentialAt(bodies, x, z);
+      worst = Math.max(worst, Math.abs(treePotential(tree, x, z, openingAngle) - exact) / exact);
+    }
+  }
+  return worst;
+};
+
+describe("treePotential", () => {
+  const bodies = cluster(2000, 15);
+
+  it("matches the exact sum when every cell is opened", () => {
+    expect(maxRelativeError(bodies, 0)).toBeLessThan(1e-9);
+  });
+
+  it("stays within a percent at the default opening angle and degrades as it widens", () => {
+    const tight = maxRelativeError(bodies, 0.3);
+    const standard = maxRelativeError(bodies, 0.5);
+    const loose = maxRelativeError(bodies, 1);
+
+    expect(standard).toBeLessThan(0.01);
+    expect(tight).toBeLessThan(standard);
+    expect(standard).toBeLessThan(loose);
+  });
+
+  it("keeps coincident bodies and an empty scene", () => {
+    const stacked = Array.from({ length: 100 }, () => ({ mass: 1, position: { x: 2, y: 0, z: 2 } }));
+    expect(treePotential(buildQuadTree(stacked), 12, 2)).toBeCloseTo(potentialAt(stacked, 12, 2));
+    expect(treePotential(buildQuadTree([]), 0, 0)).toBe(0);
+  });
+});
+
+describe("computeCurvatureField with a tree", () => {
+  it("lays out nearly the same sheet as the exact sum", () => {
+    const bodies = cluster(500, 8, 7);
+    const grid = { halfExtent: 10, divisions: 32 };
+    const exact = computeCurvatureField(bodies, grid, undefined, 0);
+    const approx = computeCurvatureField(bodies, grid);
+
+    for (let i = 0; i < exact.field.values.length; i++) {
+      expect(Math.abs(approx.field.values[i] - exact.field.values[i])).toBeLessThan(0.01 * exact.maxAbs);
+    }
+  });
+});
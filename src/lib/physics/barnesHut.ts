@@ -0,0 +1,125 @@
+import { pointPotential, SCHWARZSCHILD_SCALE } from "./field";
+import type { PhysicsBody } from "./types";
+
+// Cell width over distance below which a cell is summed as a single mass; 0 is exact
+export const DEFAULT_OPENING_ANGLE = 0.5;
+export const MAX_OPENING_ANGLE = 1.5;
+
+// Below this many bodies the exact sum is as fast as building the tree
+export const BARNES_HUT_MIN_BODIES = 64;
+
+const LEAF_CAPACITY = 8;
+const MAX_DEPTH = 24; // coincident bodies end up together in one deep leaf
+
+export interface QuadNode {
+  centerX: number;
+  centerZ: number;
+  halfSize: number;
+  mass: number;
+  comX: number; // center of mass
+  comZ: number;
+  coreRadius: number; // largest capped core of any body inside
+  bodies: PhysicsBody[] | null; // set on leaves
+  children: QuadNode[] | null; // set on internal nodes
+}
+
+function buildNode(bodies: PhysicsBody[], centerX: number, centerZ: number, halfSize: number, depth: number): QuadNode {
+  let mass = 0;
+  let mx = 0;
+  let mz = 0;
+  let heaviest = 0;
+  for (const b of bodies) {
+    mass += b.mass;
+    mx += b.mass * b.position.x;
+    mz += b.mass * b.position.z;
+    heaviest = Math.max(heaviest, b.mass);
+  }
+  const node: QuadNode = {
+    centerX,
+    centerZ,
+    halfSize,
+    mass,
+    comX: mass > 0 ? mx / mass : centerX,
+    comZ: mass > 0 ? mz / mass : centerZ,
+    coreRadius: SCHWARZSCHILD_SCALE * heaviest,
+    bodies: null,
+    children: null,
+  };
+
+  if (bodies.length <= LEAF_CAPACITY || depth >= MAX_DEPTH) {
+    node.bodies = bodies;
+    return node;
+  }
+
+  // Quadrants in the order -x-z, +x-z, -x+z, +x+z
+  const quadrants: PhysicsBody[][] = [[], [], [], []];
+  for (const b of bodies) {
+    quadrants[(b.position.x >= centerX ? 1 : 0) + (b.position.z >= centerZ ? 2 : 0)].push(b);
+  }
+  const quarter = halfSize / 2;
+  node.children = [];
+  quadrants.forEach((quadrant, i) => {
+    if (quadrant.length === 0) return;
+    const cx = centerX + (i & 1 ? quarter : -quarter);
+    const cz = centerZ + (i & 2 ? quarter : -quarter);
+    node.children!.push(buildNode(quadrant, cx, cz, quarter, depth + 1));
+  });
+  return node;
+}
+
+/**
+ * Barnes–Hut quadtree over the XZ positions of the bodies, the plane the sheet
+ * lies in. Each cell carries its total mass and center of mass. Returns null when
+ * there are no bodies.
+ */
+export function buildQuadTree(bodies: ReadonlyArray<PhysicsBody>): QuadNode | null {
+  if (bodies.length === 0) return null;
+
+  let minX = Infinity;
+  let maxX = -Infinity;
+  let minZ = Infinity;
+  let maxZ = -Infinity;
+  for (const b of bodies) {
+    minX = Math.min(minX, b.position.x);
+    maxX = Math.max(maxX, b.position.x);
+    minZ = Math.min(minZ, b.position.z);
+    maxZ = Math.max(maxZ, b.position.z);
+  }
+  // Square root cell, padded so bodies on the far edge still fall inside
+  const halfSize = Math.max(maxX - minX, maxZ - minZ, 1e-6) / 2 + 1e-6;
+  return buildNode([...bodies], (minX + maxX) / 2, (minZ + maxZ) / 2, halfSize, 0);
+}
+
+/**
+ * Approximates `potentialAt` by walking the tree: a cell that looks smaller than
+ * `openingAngle` from (x, z) contributes its total mass at its center of mass, and
+ * is opened otherwise. Cells that (x, z) might share a capped core with are always
+ * opened, so the potential near each body matches the exact sum.
+ */
+export function treePotential(
+  root: QuadNode | null,
+  x: number,
+  z: number,
+  openingAngle: number = DEFAULT_OPENING_ANGLE,
+): number {
+  if (!root) return 0;
+
+  let sum = 0;
+  const stack: QuadNode[] = [root];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (node.bodies) {
+      for (const b of node.bodies) sum += pointPotential(b, x, z);
+      continue;
+    }
+
+    const size = node.halfSize * 2;
+    const d = Math.hypot(x - node.comX, z - node.comZ);
+    if (size < openingAngle * d && d > node.coreRadius + size * Math.SQRT2) {
+      sum += node.mass / d;
+    } else {
+      for (const child of node.children!) stack.push(child);
+    }
+  }
+  return sum;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { advanceClock, clockRate, createClockProbe, dilationHeat, rateAtHeat } from "./clocks";
+import { schwarzschildRadius } from "./geodesics";
+import type { PhysicsBody } from "./types";
+
+const neutronStar: PhysicsBody = { mass: 1000, position: { x: 0, y: 0, z: 0 } };
+
+describe("clockRate", () => {
+  it("is √(1 − r_s/r) around a single body and 1 far from everything", () => {
+    const rs = schwarzschildRadius(neutronStar.mass);
+    expect(clockRate([neutronStar], 0, 2)).toBeCloseTo(Math.sqrt(1 - rs / 2), 12);
+    expect(clockRate([], 3, 4)).toBe(1);
+  });
+
+  it("stops at and inside a horizon", () => {
+    const blackHole: PhysicsBody = { mass: 10000, position: { x: 1, y: 0, z: 1 } };
+    const rs = schwarzschildRadius(blackHole.mass);
+    expect(clockRate([blackHole], 1 + rs, 1)).toBe(0);
+    expect(clockRate([blackHole], 1, 1)).toBe(0);
+  });
+
+  it("adds the slowdown of several bodies", () => {
+    const other: PhysicsBody = { mass: 1000, position: { x: 4, y: 0, z: 0 } };
+    expect(clockRate([neutronStar, other], 2, 0)).toBeLessThan(clockRate([neutronStar], 2, 0));
+  });
+});
+
+describe("dilationHeat", () => {
+  it("maps the slowdown logarithmically and inverts through rateAtHeat", () => {
+    expect(dilationHeat(1)).toBe(0);
+    expect(dilationHeat(0)).toBe(1);
+    expect(dilationHeat(0.99)).toBeCloseTo(0.5, 12);
+    expect(rateAtHeat(dilationHeat(0.999))).toBeCloseTo(0.999, 12);
+  });
+});
+
+describe("advanceClock", () => {
+  it("runs a clock near a neutron star slow against coordinate time", () => {
+    const near = createClockProbe(0, 1, 0, [neutronStar]);
+    const far = createClockProbe(1, 1000, 0, [neutronStar]);
+    for (let i = 0; i < 100; i++) {
+      advanceClock(near, [neutronStar], 0.1);
+      advanceClock(far, [neutronStar], 0.1);
+    }
+
+    expect(near.coordinateTime).toBeCloseTo(10, 9);
+    expect(near.properTime).toBeCloseTo(10 * near.rate, 9);
+    expect(near.properTime).toBeLessThan(far.properTime);
+    expect(far.properTime).toBeCloseTo(10, 2);
+  });
+});
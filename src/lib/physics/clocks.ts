@@ -0,0 +1,61 @@
+import { GRAVITATIONAL_CONSTANT, SPEED_OF_LIGHT } from "./constants";
+import type { PhysicsBody } from "./types";
+
+// Orders of magnitude of slowdown, 1 − rate, spanned by the time-dilation overlay's colors
+export const DILATION_DECADES = 4;
+
+// Static clock dropped on the sheet, comparing its own time with a distant observer's
+export interface ClockProbe {
+  id: number;
+  x: number;
+  z: number;
+  rate: number; // dτ/dt at the last tick
+  properTime: number; // τ, seconds shown by the clock
+  coordinateTime: number; // t, seconds elapsed for the distant observer
+}
+
+// 2Φ/c² at (x, z), with Φ = ΣGM/r over the bodies in the plane
+function horizonRatio(bodies: ReadonlyArray<PhysicsBody>, x: number, z: number): number {
+  let sum = 0;
+  for (const b of bodies) {
+    const r = Math.hypot(x - b.position.x, z - b.position.z);
+    sum += (2 * GRAVITATIONAL_CONSTANT * b.mass) / (SPEED_OF_LIGHT * SPEED_OF_LIGHT * Math.max(r, 1e-9));
+  }
+  return sum;
+}
+
+/**
+ * Rate of a static clock at (x, z) relative to a distant observer's, √(1 − 2Φ/c²).
+ * Exact outside a single body (Schwarzschild), the weak-field superposition for
+ * several, and 0 on or inside a horizon.
+ */
+export function clockRate(bodies: ReadonlyArray<PhysicsBody>, x: number, z: number): number {
+  return Math.sqrt(Math.max(0, 1 - horizonRatio(bodies, x, z)));
+}
+
+/**
+ * Overlay value in [0, 1] for a clock rate: the slowdown 1 − rate on a log scale
+ * over DILATION_DECADES decades, reaching 1 at a horizon. The heatmap shader
+ * performs the same mapping per vertex.
+ */
+export function dilationHeat(rate: number): number {
+  const slowdown = 1 - rate;
+  if (slowdown <= 0) return 0;
+  return Math.min(Math.max(1 + Math.log10(slowdown) / DILATION_DECADES, 0), 1);
+}
+
+// Rate at which a clock at the given overlay value runs, the inverse of `dilationHeat`
+export function rateAtHeat(heat: number): number {
+  return 1 - 10 ** ((heat - 1) * DILATION_DECADES);
+}
+
+export function createClockProbe(id: number, x: number, z: number, bodies: ReadonlyArray<PhysicsBody>): ClockProbe {
+  return { id, x, z, rate: clockRate(bodies, x, z), properTime: 0, coordinateTime: 0 };
+}
+
+// Lets `seconds` of the distant observer's time pass for the clock, in place
+export function advanceClock(probe: ClockProbe, bodies: ReadonlyArray<PhysicsBody>, seconds: number): void {
+  probe.rate = clockRate(bodies, probe.x, probe.z);
+  probe.properTime += probe.rate * seconds;
+  probe.coordinateTime += seconds;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { CollidingBody, resolveCollisions } from "./collisions";
+import { classifyMergedType, isObjectType } from "./objectTypes";
+
+const body = (id: string, type: string, mass: number, x: number, vx = 0): CollidingBody => ({
+  id,
+  type,
+  mass,
+  position: { x, y: 0, z: 0 },
+  velocity: { x: vx, y: 0, z: 0 },
+});
+
+const momentum = (bodies: CollidingBody[]) => bodies.reduce((acc, b) => acc + b.mass * b.velocity.x, 0);
+
+describe("classifyMergedType", () => {
+  it("collapses two neutron stars into a black hole", () => {
+    expect(classifyMergedType("neutronstar", "neutronstar", 2000)).toBe("blackhole");
+  });
+
+  it("keeps a light compact remnant a neutron star", () => {
+    expect(classifyMergedType("neutronstar", "planet", 1001)).toBe("neutronstar");
+  });
+
+  it("never downgrades a black hole", () => {
+    expect(classifyMergedType("blackhole", "spaceship", 1)).toBe("blackhole");
+  });
+
+  it("classifies ordinary bodies by mass", () => {
+    expect(classifyMergedType("planet", "planet", 12)).toBe("star");
+    expect(classifyMergedType("planet", "spaceship", 1)).toBe("planet");
+  });
+});
+
+describe("isObjectType", () => {
+  it("rejects inherited object keys", () => {
+    expect(isObjectType("star")).toBe(true);
+    expect(isObjectType("constructor")).toBe(false);
+    expect(isObjectType("toString")).toBe(false);
+  });
+});
+
+describe("resolveCollisions", () => {
+  it("ignores bodies outside the merge radius", () => {
+    const bodies = [body("a", "star", 100, 0), body("b", "star", 100, 5)];
+    const result = resolveCollisions(bodies, { mode: "merge", radiusFactor: 1 });
+    expect(result.mergers).toEqual([]);
+    expect(result.bodies).toBe(bodies);
+  });
+
+  it("merges inelastically at the center of mass, conserving mass and momentum", () => {
+    const bodies = [body("a", "star", 300, 0, 1), body("b", "star", 100, 0.4, -1)];
+    const before = momentum(bodies);
+    const { bodies: after, mergers } = resolveCollisions(bodies, { mode: "merge", radiusFactor: 1 });
+
+    expect(after.map((b) => b.id)).toEqual(["a"]);
+    expect(mergers).toHaveLength(1);
+    expect(mergers[0]).toMatchObject({ survivorId: "a", absorbedId: "b", type: "star", mass: 400 });
+    expect(after[0].position.x).toBeCloseTo(0.1);
+    expect(momentum(after)).toBeCloseTo(before);
+  });
+
+  it("lets a black hole swallow a heavier body without moving", () => {
+    const bodies = [body("star", "star", 20000, 0), body("hole", "blackhole", 10000, 0.5)];
+    const { bodies: after, mergers } = resolveCollisions(bodies, { mode: "absorb", radiusFactor: 1 });
+
+    expect(mergers[0]).toMatchObject({ survivorId: "hole", absorbedId: "star", type: "blackhole", mass: 30000 });
+    expect(after[0].position.x).toBe(0.5);
+  });
+
+  it("bounces elastically, conserving momentum and kinetic energy", () => {
+    const bodies = [body("a", "planet", 1, 0, 2), body("b", "planet", 3, 0.5, 0)];
+    const before = momentum(bodies);
+    const { bodies: after, mergers } = resolveCollisions(bodies, { mode: "bounce", radiusFactor: 1 });
+
+    expect(mergers).toEqual([]);
+    expect(after).toHaveLength(2);
+    expect(after[0].velocity.x).toBeCloseTo(-1);
+    expect(after[1].velocity.x).toBeCloseTo(1);
+    expect(momentum(after)).toBeCloseTo(before);
+  });
+});
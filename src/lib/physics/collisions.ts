@@ -0,0 +1,136 @@
+import type { NBodyBody } from "./nbody";
+import { classifyMergedType, objectSize } from "./objectTypes";
+import type { Vec3 } from "./types";
+
+// merge: perfectly inelastic, remnant at the center of mass
+// absorb: black holes swallow what they touch without moving; other pairs merge
+// bounce: elastic collision, nothing is removed
+export type CollisionMode = "merge" | "absorb" | "bounce";
+
+export const COLLISION_MODES: ReadonlyArray<CollisionMode> = ["merge", "absorb", "bounce"];
+
+export interface CollidingBody extends NBodyBody {
+  id: string;
+  type: string;
+}
+
+export interface MergerEvent {
+  survivorId: string;
+  absorbedId: string;
+  type: string; // remnant type after reclassification
+  mass: number;
+  position: Vec3;
+  velocity: Vec3;
+}
+
+export interface CollisionOptions {
+  mode: CollisionMode;
+  radiusFactor: number; // multiplier on the sum of the two bodies' sizes
+}
+
+export function mergeRadius(a: CollidingBody, b: CollidingBody, radiusFactor: number): number {
+  return radiusFactor * (objectSize(a.type) + objectSize(b.type));
+}
+
+const weighted = (a: Vec3, wa: number, b: Vec3, wb: number): Vec3 => {
+  const total = wa + wb;
+  return {
+    x: (a.x * wa + b.x * wb) / total,
+    y: (a.y * wa + b.y * wb) / total,
+    z: (a.z * wa + b.z * wb) / total,
+  };
+};
+
+// Elastic bounce along the line of centers; only applied while the bodies approach
+function bounce(a: CollidingBody, b: CollidingBody): void {
+  const nx = b.position.x - a.position.x;
+  const ny = b.position.y - a.position.y;
+  const nz = b.position.z - a.position.z;
+  const dist = Math.hypot(nx, ny, nz);
+  if (dist === 0) return;
+
+  const ux = nx / dist;
+  const uy = ny / dist;
+  const uz = nz / dist;
+  const approach =
+    (a.velocity.x - b.velocity.x) * ux + (a.velocity.y - b.velocity.y) * uy + (a.velocity.z - b.velocity.z) * uz;
+  if (approach <= 0) return;
+
+  const impulse = (2 * approach) / (a.mass + b.mass);
+  a.velocity.x -= impulse * b.mass * ux;
+  a.velocity.y -= impulse * b.mass * uy;
+  a.velocity.z -= impulse * b.mass * uz;
+  b.velocity.x += impulse * a.mass * ux;
+  b.velocity.y += impulse * a.mass * uy;
+  b.velocity.z += impulse * a.mass * uz;
+}
+
+// Black holes always survive; otherwise the heavier body does
+function survives(a: CollidingBody, b: CollidingBody): boolean {
+  const aHole = a.type === "blackhole";
+  const bHole = b.type === "blackhole";
+  return aHole !== bHole ? aHole : a.mass >= b.mass;
+}
+
+// Folds `absorbed` into `survivor`, conserving mass and momentum
+function merge(survivor: CollidingBody, absorbed: CollidingBody, mode: CollisionMode): MergerEvent {
+  const mass = survivor.mass + absorbed.mass;
+  const swallow = mode === "absorb" && survivor.type === "blackhole";
+
+  survivor.position = swallow
+    ? survivor.position
+    : weighted(survivor.position, survivor.mass, absorbed.position, absorbed.mass);
+  survivor.velocity = weighted(survivor.velocity, survivor.mass, absorbed.velocity, absorbed.mass);
+  survivor.type = classifyMergedType(survivor.type, absorbed.type, mass);
+  survivor.mass = mass;
+
+  return {
+    survivorId: survivor.id,
+    absorbedId: absorbed.id,
+    type: survivor.type,
+    mass,
+    position: { ...survivor.position },
+    velocity: { ...survivor.velocity },
+  };
+}
+
+/**
+ * Finds every pair inside its merge radius and resolves it according to the
+ * mode. Survivors are updated in place; the returned list omits absorbed bodies.
+ */
+export function resolveCollisions<T extends CollidingBody>(
+  bodies: T[],
+  options: CollisionOptions,
+): { bodies: T[]; mergers: MergerEvent[] } {
+  const removed = new Set<string>();
+  const mergers: MergerEvent[] = [];
+
+  for (let i = 0; i < bodies.length; i++) {
+    for (let j = i + 1; j < bodies.length; j++) {
+      const a = bodies[i];
+      const b = bodies[j];
+      if (removed.has(a.id) || removed.has(b.id)) continue;
+
+      const dist = Math.hypot(
+        b.position.x - a.position.x,
+        b.position.y - a.position.y,
+        b.position.z - a.position.z,
+      );
+      if (dist > mergeRadius(a, b, options.radiusFactor)) continue;
+
+      if (options.mode === "bounce") {
+        bounce(a, b);
+        continue;
+      }
+
+      const [survivor, absorbed] = survives(a, b) ? [a, b] : [b, a];
+      mergers.push(merge(survivor, absorbed, options.mode));
+      removed.add(absorbed.id);
+    }
+  }
+
+  return {
+    bodies: removed.size ? bodies.filter((b) => !removed.has(b.id)) : bodies,
+    mergers,
+  };
+}
@@ -0,0 +1,10 @@
+// Gravitational constant in scene units (grid units, solar masses, seconds).
+// Tuned so a planet a few units from a star completes an orbit in about a minute.
+export const GRAVITATIONAL_CONSTANT = 0.01;
+
+// Plummer softening length, keeps close encounters from producing infinite kicks
+export const SOFTENING_LENGTH = 0.1;
+
+// Speed of light in scene units. Slow enough that a black hole's horizon, 2GM/c², is
+// about as large as its sphere, so relativistic effects show up at scene scale.
+export const SPEED_OF_LIGHT = 20;
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { embeddingDepth, flammHeight } from "./embedding";
+import { schwarzschildRadius } from "./geodesics";
+import type { PhysicsBody } from "./types";
+
+const blackHole: PhysicsBody = { mass: 10000, position: { x: 0, y: 0, z: 0 } };
+const rs = schwarzschildRadius(blackHole.mass);
+
+describe("flammHeight", () => {
+  it("measures proper radial distance along the surface", () => {
+    // Arc length of the profile from r1 to r2 against ∫ dr / √(1 − r_s/r)
+    const r1 = 1.5 * rs;
+    const r2 = 10 * rs;
+    const steps = 20000;
+    let arc = 0;
+    let proper = 0;
+    for (let i = 0; i < steps; i++) {
+      const a = r1 + ((r2 - r1) * i) / steps;
+      const b = r1 + ((r2 - r1) * (i + 1)) / steps;
+      arc += Math.hypot(b - a, flammHeight(rs, b) - flammHeight(rs, a));
+      const mid = (a + b) / 2;
+      proper += (b - a) / Math.sqrt(1 - rs / mid);
+    }
+    expect(arc / proper).toBeCloseTo(1, 5);
+  });
+
+  it("starts at the horizon and is flat inside it", () => {
+    expect(flammHeight(rs, rs)).toBe(0);
+    expect(flammHeight(rs, rs / 2)).toBe(0);
+  });
+});
+
+describe("embeddingDepth", () => {
+  it("is the exact profile measured down from the rim for one body", () => {
+    const reach = 20;
+    expect(embeddingDepth([blackHole], reach, 0, reach)).toBeCloseTo(0, 12);
+    expect(embeddingDepth([blackHole], 3, 4, reach)).toBeCloseTo(flammHeight(rs, reach) - flammHeight(rs, 5), 12);
+    expect(embeddingDepth([blackHole], 0, 0, reach)).toBeCloseTo(flammHeight(rs, reach), 12);
+  });
+
+  it("sums the depressions of several bodies", () => {
+    const other: PhysicsBody = { mass: 1000, position: { x: 6, y: 0, z: 0 } };
+    const depth = embeddingDepth([blackHole, other], 2, 0, 20);
+    expect(depth).toBeCloseTo(embeddingDepth([blackHole], 2, 0, 20) + embeddingDepth([other], 2, 0, 20), 12);
+  });
+});
@@ -0,0 +1,27 @@
+import { schwarzschildRadius } from "./geodesics";
+import type { PhysicsBody } from "./types";
+
+/**
+ * Height of Flamm's paraboloid, w(r) = 2√(r_s(r − r_s)): the surface whose intrinsic
+ * geometry is the equatorial slice of Schwarzschild space at fixed time, so radial
+ * distances measured along it are proper distances. The slice ends at the horizon.
+ */
+export function flammHeight(rs: number, r: number): number {
+  return 2 * Math.sqrt(rs * Math.max(r - rs, 0));
+}
+
+/**
+ * How far the embedding-diagram sheet sits below its rim at `reach` from each body.
+ * Around a single body this is the exact embedding, measured down from the rim.
+ * No embedding exists for several masses, so their depressions are summed: each
+ * body's neighbourhood keeps its own profile, but the sum is an approximation.
+ */
+export function embeddingDepth(bodies: ReadonlyArray<PhysicsBody>, x: number, z: number, reach: number): number {
+  let depth = 0;
+  for (const b of bodies) {
+    const rs = schwarzschildRadius(b.mass);
+    const r = Math.hypot(x - b.position.x, z - b.position.z);
+    depth += Math.max(flammHeight(rs, reach) - flammHeight(rs, r), 0);
+  }
+  return depth;
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeCurvatureField,
+  CURVATURE_SCALE,
+  pointPotential,
+  potentialAt,
+  potentialGradient,
+  samplePotential,
+  SCHWARZSCHILD_SCALE,
+} from "./field";
+import type { PhysicsBody, PotentialField } from "./types";
+
+const star: PhysicsBody = { mass: 10, position: { x: 0, y: 0, z: 0 } };
+
+describe("pointPotential", () => {
+  it("falls off as 1/r outside the capped core", () => {
+    const at2 = pointPotential(star, 2, 0);
+    const at4 = pointPotential(star, 0, 4);
+    const at8 = pointPotential(star, 8, 0);
+
+    expect(at2).toBeCloseTo(10 / 2);
+    expect(at4 / at2).toBeCloseTo(0.5);
+    expect(at8 / at2).toBeCloseTo(0.25);
+  });
+
+  it("caps the potential inside the visual Schwarzschild radius", () => {
+    const core = SCHWARZSCHILD_SCALE * star.mass;
+    expect(pointPotential(star, 0, 0)).toBeCloseTo(star.mass / core);
+    expect(pointPotential(star, core / 2, 0)).toBeCloseTo(star.mass / core);
+  });
+
+  it("superposes linearly over multiple bodies", () => {
+    const other: PhysicsBody = { mass: 4, position: { x: 6, y: 0, z: 0 } };
+    expect(potentialAt([star, other], 3, 0)).toBeCloseTo(10 / 3 + 4 / 3);
+    expect(potentialAt([], 3, 0)).toBe(0);
+  });
+});
+
+describe("computeCurvatureField", () => {
+  const grid = { halfExtent: 10, divisions: 20 };
+
+  it("zero-centers the potential and scales displacements", () => {
+    const { displacements, field } = computeCurvatureField([star], grid);
+    expect(field.nx).toBe(21);
+    expect(field.values.length).toBe(21 * 21);
+
+    const mean = field.values.reduce((acc, v) => acc + v, 0) / field.values.length;
+    expect(mean).toBeCloseTo(0, 4);
+
+    for (let i = 0; i < field.values.length; i++) {
+      expect(displacements[i]).toBeCloseTo(-CURVATURE_SCALE * field.values[i], 5);
+    }
+  });
+
+  it("keeps the 1/r falloff between vertices after centering", () => {
+    const { field } = computeCurvatureField([star], grid);
+    // Vertices at x = 2, 4 and 8 on the z = 0 row
+    const row = 10 * field.nx;
+    const at2 = field.values[row + 12];
+    const at4 = field.values[row + 14];
+    const at8 = field.values[row + 18];
+
+    expect(at2 - at4).toBeCloseTo(10 / 2 - 10 / 4, 3);
+    expect(at4 - at8).toBeCloseTo(10 / 4 - 10 / 8, 3);
+  });
+
+  it("normalizes heat to [0, 1] with the peak at the mass", () => {
+    const { heat, field, maxAbs } = computeCurvatureField([star], grid);
+    const center = 10 * field.nx + 10;
+    expect(heat[center]).toBeCloseTo(1);
+    expect(Math.abs(field.values[center])).toBeCloseTo(maxAbs);
+    expect(Math.min(...heat)).toBeGreaterThanOrEqual(0);
+  });
+
+  it("reports the mean it subtracted", () => {
+    const { field, mean } = computeCurvatureField([star], grid);
+    const center = 10 * field.nx + 10;
+    expect(field.values[center] + mean).toBeCloseTo(potentialAt([star], 0, 0), 3);
+  });
+
+  it("produces a flat sheet without bodies", () => {
+    const { displacements, heat } = computeCurvatureField([], grid);
+    expect(displacements.every((d) => d === 0)).toBe(true);
+    expect(heat.every((h) => h === 0)).toBe(true);
+  });
+});
+
+describe("samplePotential", () => {
+  // f(x, z) = 2x + 3z + 1 is reproduced exactly by bilinear interpolation
+  const linearField = (): PotentialField => {
+    const nx = 5;
+    const nz = 5;
+    const values = new Float32Array(nx * nz);
+    for (let j = 0; j < nz; j++) {
+      for (let i = 0; i < nx; i++) {
+        values[j * nx + i] = 2 * (i - 2) + 3 * (j - 2) + 1;
+      }
+    }
+    return { values, nx, nz, minX: -2, maxX: 2, minZ: -2, maxZ: 2 };
+  };
+
+  it("returns vertex values at grid nodes", () => {
+    const field = linearField();
+    expect(samplePotential(field, -2, -2)).toBeCloseTo(-9);
+    expect(samplePotential(field, 2, 2)).toBeCloseTo(11);
+  });
+
+  it("interpolates between nodes", () => {
+    const field = linearField();
+    expect(samplePotential(field, 0.5, -1.25)).toBeCloseTo(2 * 0.5 + 3 * -1.25 + 1);
+  });
+
+  it("recovers the gradient of a linear field", () => {
+    const g = potentialGradient(linearField(), 0.3, 0.1);
+    expect(g.x).toBeCloseTo(2);
+    expect(g.z).toBeCloseTo(3);
+  });
+});
@@ -0,0 +1,127 @@
+import { BARNES_HUT_MIN_BODIES, buildQuadTree, DEFAULT_OPENING_ANGLE, treePotential } from "./barnesHut";
+import type { CurvatureField, GridSpec, PhysicsBody, PotentialField, Vec2 } from "./types";
+
+export const CURVATURE_SCALE = 0.4; // curvature visualization scale
+export const SCHWARZSCHILD_SCALE = 0.05; // visual "Schwarzschild radius" per unit mass
+const MIN_MASS = 0.000001;
+
+/**
+ * Weak-field potential magnitude of a single body at (x, z). Falls off as 1/r
+ * and is capped inside the body's visual Schwarzschild radius to avoid singularities.
+ */
+export function pointPotential(body: PhysicsBody, x: number, z: number): number {
+  const r = Math.hypot(x - body.position.x, z - body.position.z);
+  const mass = Math.max(MIN_MASS, body.mass);
+  const effectiveR = Math.max(r, SCHWARZSCHILD_SCALE * mass);
+  return mass / effectiveR;
+}
+
+export function potentialAt(bodies: ReadonlyArray<PhysicsBody>, x: number, z: number): number {
+  let sum = 0;
+  for (const body of bodies) {
+    sum += pointPotential(body, x, z);
+  }
+  return sum;
+}
+
+// World coordinate of a grid vertex along one axis
+export function gridCoordinate(grid: GridSpec, index: number): number {
+  return -grid.halfExtent + (index / grid.divisions) * grid.halfExtent * 2;
+}
+
+/**
+ * Evaluates the potential on every grid vertex, zero-centers it so the sheet
+ * doesn't drift as mass is added, and derives the vertex displacements, heatmap
+ * scalars and the sampling field used for geodesics.
+ * Larger scenes are summed through a Barnes–Hut tree with the given opening angle;
+ * an angle of 0 always takes the exact sum.
+ */
+export function computeCurvatureField(
+  bodies: ReadonlyArray<PhysicsBody>,
+  grid: GridSpec,
+  scale: number = CURVATURE_SCALE,
+  openingAngle: number = DEFAULT_OPENING_ANGLE,
+): CurvatureField {
+  const nx = grid.divisions + 1;
+  const nz = grid.divisions + 1;
+  const count = nx * nz;
+
+  const tree = openingAngle > 0 && bodies.length >= BARNES_HUT_MIN_BODIES ? buildQuadTree(bodies) : null;
+  const sample = (x: number, z: number) => (tree ? treePotential(tree, x, z, openingAngle) : potentialAt(bodies, x, z));
+
+  // First pass: raw potential and its mean
+  const values = new Float32Array(count);
+  let sum = 0;
+  for (let iz = 0; iz < nz; iz++) {
+    const z = gridCoordinate(grid, iz);
+    for (let ix = 0; ix < nx; ix++) {
+      const p = sample(gridCoordinate(grid, ix), z);
+      values[iz * nx + ix] = p;
+      sum += p;
+    }
+  }
+  const mean = sum / Math.max(1, count);
+
+  // Second pass: center and find the range for heatmap normalization
+  let maxAbs = 0;
+  for (let i = 0; i < count; i++) {
+    values[i] -= mean;
+    maxAbs = Math.max(maxAbs, Math.abs(values[i]));
+  }
+  const invMax = maxAbs > 1e-6 ? 1 / maxAbs : 0;
+
+  const displacements = new Float32Array(count);
+  const heat = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    displacements[i] = -scale * values[i];
+    heat[i] = Math.min(Math.max(Math.abs(values[i]) * invMax, 0), 1);
+  }
+
+  return {
+    displacements,
+    heat,
+    field: {
+      values,
+      nx,
+      nz,
+      minX: -grid.halfExtent,
+      maxX: grid.halfExtent,
+      minZ: -grid.halfExtent,
+      maxZ: grid.halfExtent,
+    },
+    mean,
+    maxAbs,
+  };
+}
+
+// Bilinear sampling of the field; positions outside the grid clamp to the border cells
+export function samplePotential(field: PotentialField, x: number, z: number): number {
+  const { values, nx, nz, minX, maxX, minZ, maxZ } = field;
+  const u = ((x - minX) / (maxX - minX)) * (nx - 1);
+  const v = ((z - minZ) / (maxZ - minZ)) * (nz - 1);
+  const iu = Math.max(0, Math.min(nx - 2, Math.floor(u)));
+  const iv = Math.max(0, Math.min(nz - 2, Math.floor(v)));
+  const fu = u - iu;
+  const fv = v - iv;
+
+  const idx = (ii: number, jj: number) => jj * nx + ii;
+
+  const v00 = values[idx(iu, iv)];
+  const v10 = values[idx(iu + 1, iv)];
+  const v01 = values[idx(iu, iv + 1)];
+  const v11 = values[idx(iu + 1, iv + 1)];
+
+  const v0 = v00 * (1 - fu) + v10 * fu;
+  const v1 = v01 * (1 - fu) + v11 * fu;
+  return v0 * (1 - fv) + v1 * fv;
+}
+
+// Numerical gradient via central differences, stepping just under one cell
+export function potentialGradient(field: PotentialField, x: number, z: number): Vec2 {
+  const { nx, nz, minX, maxX, minZ, maxZ } = field;
+  const eps = Math.max((maxX - minX) / (nx - 1), (maxZ - minZ) / (nz - 1)) * 0.75;
+  return {
+    x: (samplePotential(field, x + eps, z) - samplePotential(field, x - eps, z)) / (2 * eps),
+    z: (samplePotential(field, x, z + eps) - samplePotential(field, x, z - eps)) / (2 * eps),
+  };
+}
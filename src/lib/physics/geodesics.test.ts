@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import { GRAVITATIONAL_CONSTANT, SPEED_OF_LIGHT } from "./constants";
+import { computeCurvatureField } from "./field";
+import {
+  emitterRays,
+  schwarzschildRadius,
+  traceLightSources,
+  traceNullGeodesic,
+  traceRays,
+  traceSchwarzschildRays,
+} from "./geodesics";
+
+const grid = { halfExtent: 10, divisions: 32 };
+
+describe("traceRays", () => {
+  it("fires evenly spread parallel rays that stay straight on a flat sheet", () => {
+    const { field } = computeCurvatureField([], grid);
+    const paths = traceRays(field, { rayCount: 3 });
+
+    expect(paths.map((p) => p.points[0])).toEqual([
+      { x: -10, z: -10 },
+      { x: -10, z: 0 },
+      { x: -10, z: 10 },
+    ]);
+    const middle = paths[1].points;
+    expect(middle.length).toBeGreaterThan(50);
+    expect(middle.every((p) => Math.abs(p.z) < 1e-9)).toBe(true);
+    expect(middle[middle.length - 1].x).toBeGreaterThan(9);
+  });
+
+  it("bends rays that pass near a mass", () => {
+    const { field } = computeCurvatureField([{ mass: 5, position: { x: 0, y: 0, z: 1 } }], grid);
+    const [ray] = traceRays(field, { rayCount: 1 });
+    const end = ray.points[ray.points.length - 1];
+
+    expect(Math.abs(end.z)).toBeGreaterThan(0.1);
+  });
+
+  it("respects the step budget", () => {
+    const { field } = computeCurvatureField([], grid);
+    const [ray] = traceRays(field, { rayCount: 1, stepCount: 10 });
+    expect(ray.points.length).toBe(11);
+  });
+});
+
+describe("traceNullGeodesic", () => {
+  const far = { minX: -20000, maxX: 20000, minZ: -20000, maxZ: 20000 };
+  // GM = 100, so the horizon is 2GM/c² = 0.5
+  const blackHole = { mass: 10000, position: { x: 0, y: 0, z: 0 } };
+
+  it("matches the weak-field deflection 4GM/(c²b) for large impact parameters", () => {
+    const b = 200;
+    const ray = traceNullGeodesic([blackHole], { x: -20000, z: b }, { x: 1, z: 0 }, far);
+    const expected = (4 * GRAVITATIONAL_CONSTANT * blackHole.mass) / (SPEED_OF_LIGHT * SPEED_OF_LIGHT * b);
+
+    expect(ray.captured).toBe(false);
+    // Bends toward the mass, i.e. clockwise for a ray passing above it
+    expect(ray.deflection).toBeLessThan(0);
+    expect(Math.abs(ray.deflection!)).toBeCloseTo(expected, 4);
+  });
+
+  it("captures rays inside the critical impact parameter", () => {
+    expect(schwarzschildRadius(blackHole.mass)).toBeCloseTo(0.5);
+    // Critical impact parameter is (3√3/2) r_s ≈ 1.3
+    const bounds = { minX: -50, maxX: 50, minZ: -50, maxZ: 50 };
+    const captured = traceNullGeodesic([blackHole], { x: -50, z: 1.2 }, { x: 1, z: 0 }, bounds);
+    const escaped = traceNullGeodesic([blackHole], { x: -50, z: 1.5 }, { x: 1, z: 0 }, bounds);
+
+    expect(captured.captured).toBe(true);
+    expect(captured.deflection).toBeNull();
+    const end = captured.points[captured.points.length - 1];
+    expect(Math.hypot(end.x, end.z)).toBeLessThanOrEqual(0.5);
+
+    expect(escaped.captured).toBe(false);
+    expect(Math.abs(escaped.deflection!)).toBeGreaterThan(1);
+  });
+
+  it("leaves rays straight without mass", () => {
+    const [ray] = traceSchwarzschildRays([], { minX: -10, maxX: 10, minZ: -10, maxZ: 10 }, 1);
+    expect(ray.deflection).toBe(0);
+    expect(ray.points.every((p) => p.z === 0)).toBe(true);
+    expect(ray.points[ray.points.length - 1].x).toBeGreaterThan(10);
+  });
+});
+
+describe("emitterRays", () => {
+  const origin = { x: 1, z: 2 };
+
+  it("spreads a beam across its width, perpendicular to the heading", () => {
+    const rays = emitterRays({ kind: "parallel", origin, direction: Math.PI / 2, spread: 4, rayCount: 3 });
+
+    expect(rays.map((r) => r.start.x)).toEqual([3, 1, -1]);
+    for (const ray of rays) {
+      expect(ray.start.z).toBeCloseTo(2);
+      expect(ray.direction.x).toBeCloseTo(0);
+      expect(ray.direction.z).toBeCloseTo(1);
+    }
+  });
+
+  it("fans point source rays around the heading", () => {
+    const rays = emitterRays({ kind: "point", origin, direction: 0, spread: Math.PI / 2, rayCount: 3 });
+    const angles = rays.map((r) => Math.atan2(r.direction.z, r.direction.x));
+
+    expect(angles[0]).toBeCloseTo(-Math.PI / 4);
+    expect(angles[1]).toBeCloseTo(0);
+    expect(angles[2]).toBeCloseTo(Math.PI / 4);
+    expect(rays.every((r) => r.start.x === 1 && r.start.z === 2)).toBe(true);
+  });
+
+  it("doesn't double up the ends of a full-circle fan", () => {
+    const rays = emitterRays({ kind: "point", origin, direction: 0, spread: 2 * Math.PI, rayCount: 4 });
+    const first = rays[0].direction;
+    const last = rays[3].direction;
+    expect(Math.hypot(first.x - last.x, first.z - last.z)).toBeGreaterThan(1);
+  });
+
+  it("emits exactly one ray from a single source", () => {
+    const rays = emitterRays({ kind: "single", origin, direction: Math.PI, spread: 0, rayCount: 10 });
+    expect(rays).toHaveLength(1);
+    expect(rays[0].direction.x).toBeCloseTo(-1);
+  });
+});
+
+describe("traceLightSources", () => {
+  const blackHole = { mass: 10000, position: { x: 0, y: 0, z: 0 } };
+  const { field } = computeCurvatureField([blackHole], grid);
+
+  it("draws the default beam when there are no sources", () => {
+    const traced = traceLightSources([blackHole], field, [], true, "#fff");
+
+    expect(traced).toHaveLength(traceSchwarzschildRays([blackHole], field).length);
+    expect(traced.every((ray) => ray.color === "#fff" && "captured" in ray.path)).toBe(true);
+  });
+
+  it("traces every ray of every source in its color", () => {
+    const beam = { kind: "parallel" as const, origin: { x: -8, z: 0 }, direction: 0, spread: 4, rayCount: 3 };
+    const sources = [
+      { ...beam, stepBudget: 200, color: "#f00" },
+      { ...beam, kind: "single" as const, stepBudget: 200, color: "#0f0" },
+    ];
+    const traced = traceLightSources([blackHole], field, sources, false, "#fff");
+
+    expect(traced.map((ray) => ray.color)).toEqual(["#f00", "#f00", "#f00", "#0f0"]);
+    expect(traced.some((ray) => "captured" in ray.path)).toBe(false);
+  });
+});
@@ -0,0 +1,291 @@
+import { GRAVITATIONAL_CONSTANT, SPEED_OF_LIGHT } from "./constants";
+import { potentialGradient } from "./field";
+import type { NullGeodesic, PhysicsBody, PlaneBounds, PotentialField, RayPath, Vec2 } from "./types";
+
+export interface RayTraceOptions {
+  rayCount?: number;
+  stepCount?: number;
+  bendStrength?: number; // how strongly rays bend toward the gradient
+}
+
+const DEFAULT_RAY_OPTIONS: Required<RayTraceOptions> = {
+  rayCount: 8,
+  stepCount: 140,
+  bendStrength: 0.04,
+};
+
+/**
+ * Marches one ray from `start` along `direction`, bending each step against the
+ * potential gradient, until it leaves the field or `stepCount` steps are used.
+ * This is a visual light-bending heuristic, not a physical deflection.
+ */
+export function traceHeuristicRay(
+  field: PotentialField,
+  start: Vec2,
+  direction: Vec2,
+  options: Omit<RayTraceOptions, "rayCount"> = {},
+): RayPath {
+  const { stepCount, bendStrength } = { ...DEFAULT_RAY_OPTIONS, ...options };
+  const { minX, maxX, minZ, maxZ } = field;
+  const stepSize = (maxX - minX) / 60;
+
+  let x = start.x;
+  let z = start.z;
+  const length = Math.hypot(direction.x, direction.z) || 1;
+  let dirX = direction.x / length;
+  let dirZ = direction.z / length;
+
+  const points = [{ x, z }];
+
+  for (let i = 0; i < stepCount; i++) {
+    // Attractive bending toward higher curvature magnitude; use -grad
+    const g = potentialGradient(field, x, z);
+    dirX -= g.x * bendStrength;
+    dirZ -= g.z * bendStrength;
+    const len = Math.hypot(dirX, dirZ) || 1;
+    dirX /= len;
+    dirZ /= len;
+
+    x += dirX * stepSize;
+    z += dirZ * stepSize;
+
+    // Stop if out of bounds
+    if (x < minX || x > maxX || z < minZ || z > maxZ) break;
+
+    points.push({ x, z });
+  }
+
+  return { points };
+}
+
+/**
+ * Traces a fan of parallel rays from the -X edge of the field along +X,
+ * evenly spread across Z, with `traceHeuristicRay`.
+ */
+export function traceRays(field: PotentialField, options: RayTraceOptions = {}): RayPath[] {
+  const { rayCount, ...rayOptions } = { ...DEFAULT_RAY_OPTIONS, ...options };
+  const paths: RayPath[] = [];
+
+  for (let r = 0; r < rayCount; r++) {
+    const t = rayCount === 1 ? 0.5 : r / (rayCount - 1);
+    const start = { x: field.minX, z: field.minZ * (1 - t) + field.maxZ * t };
+    paths.push(traceHeuristicRay(field, start, { x: 1, z: 0 }, rayOptions));
+  }
+
+  return paths;
+}
+
+// A user-placed light source, as stored with the scene
+export interface RaySource {
+  kind: "parallel" | "point" | "single";
+  origin: Vec2;
+  direction: number; // radians counterclockwise from +X in the XZ plane
+  spread: number; // beam width, or fan angle in radians for point sources
+  rayCount: number;
+}
+
+export interface RayStart {
+  start: Vec2;
+  direction: Vec2;
+}
+
+/**
+ * Initial position and direction of every ray a source emits. Beams space their
+ * rays evenly across `spread`, perpendicular to the heading and centered on the
+ * origin; point sources fan them over `spread` radians centered on the heading.
+ */
+export function emitterRays(source: RaySource): RayStart[] {
+  const { kind, origin, direction, spread } = source;
+  const count = kind === "single" ? 1 : Math.max(1, Math.round(source.rayCount));
+  const heading = { x: Math.cos(direction), z: Math.sin(direction) };
+  const rays: RayStart[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (kind === "parallel") {
+      // -0.5..0.5 across the beam, along the heading rotated a quarter turn
+      const t = count === 1 ? 0 : i / (count - 1) - 0.5;
+      rays.push({
+        start: { x: origin.x - heading.z * t * spread, z: origin.z + heading.x * t * spread },
+        direction: heading,
+      });
+    } else if (kind === "point") {
+      // A full circle would put the first and last rays on top of each other
+      const step = spread >= 2 * Math.PI - 1e-9 ? spread / count : count === 1 ? 0 : spread / (count - 1);
+      const angle = direction + (i - (count - 1) / 2) * step;
+      rays.push({ start: { ...origin }, direction: { x: Math.cos(angle), z: Math.sin(angle) } });
+    } else {
+      rays.push({ start: { ...origin }, direction: heading });
+    }
+  }
+  return rays;
+}
+
+export interface NullGeodesicOptions {
+  stepBudget?: number; // integration steps before a ray is abandoned
+  maxStep?: number; // longest step, defaults to 1% of the bounds' larger side
+  pointSpacing?: number; // minimum distance between recorded path points
+}
+
+// Each step covers at most this fraction of the distance to the nearest body
+const STEP_FRACTION = 0.05;
+const MIN_STEP = 1e-4;
+
+const DEFAULT_NULL_GEODESIC_OPTIONS = {
+  stepBudget: 4000,
+  pointSpacing: 0.05,
+};
+
+export function schwarzschildRadius(mass: number): number {
+  return (2 * GRAVITATIONAL_CONSTANT * Math.max(0, mass)) / (SPEED_OF_LIGHT * SPEED_OF_LIGHT);
+}
+
+/**
+ * Photon acceleration with respect to the orbit parameter. For one mass this is exact:
+ * x'' = -(3/2) r_s h² x / r⁵, with h = |x × x'|, traces the same orbits as the
+ * Schwarzschild Binet equation u'' + u = (3/2) r_s u². Several masses are combined
+ * by superposing their terms, a weak-field approximation.
+ */
+function photonAcceleration(bodies: ReadonlyArray<PhysicsBody>, radii: number[], x: number, z: number, vx: number, vz: number) {
+  let ax = 0;
+  let az = 0;
+  for (let i = 0; i < bodies.length; i++) {
+    const dx = x - bodies[i].position.x;
+    const dz = z - bodies[i].position.z;
+    const r2 = dx * dx + dz * dz;
+    const h = dx * vz - dz * vx;
+    const k = (-1.5 * radii[i] * h * h) / (r2 * r2 * Math.sqrt(r2));
+    ax += k * dx;
+    az += k * dz;
+  }
+  return { ax, az };
+}
+
+/**
+ * Integrates one light ray with RK4 from `start` along `direction` until it leaves
+ * `bounds`, falls through a horizon or runs out of steps. Steps shrink near masses
+ * so close passes stay accurate. Deflection tends to 4GM/(c²b) for a ray with
+ * impact parameter b far from a single mass.
+ */
+export function traceNullGeodesic(
+  bodies: ReadonlyArray<PhysicsBody>,
+  start: Vec2,
+  direction: Vec2,
+  bounds: PlaneBounds,
+  options: NullGeodesicOptions = {},
+): NullGeodesic {
+  const { minX, maxX, minZ, maxZ } = bounds;
+  const { stepBudget, pointSpacing } = { ...DEFAULT_NULL_GEODESIC_OPTIONS, ...options };
+  const maxStep = options.maxStep ?? Math.max(maxX - minX, maxZ - minZ) / 100;
+  const radii = bodies.map((b) => schwarzschildRadius(b.mass));
+
+  const length = Math.hypot(direction.x, direction.z) || 1;
+  let x = start.x;
+  let z = start.z;
+  let vx = direction.x / length;
+  let vz = direction.z / length;
+  const points = [{ x, z }];
+
+  const accel = (px: number, pz: number, pvx: number, pvz: number) => photonAcceleration(bodies, radii, px, pz, pvx, pvz);
+
+  for (let i = 0; i < stepBudget; i++) {
+    // Stop at a horizon; otherwise the nearest body sets the step size
+    let nearest = Infinity;
+    for (let b = 0; b < bodies.length; b++) {
+      const r = Math.hypot(x - bodies[b].position.x, z - bodies[b].position.z);
+      if (r <= radii[b]) {
+        points.push({ x, z });
+        return { points, captured: true, deflection: null };
+      }
+      nearest = Math.min(nearest, r);
+    }
+
+    // |x'| drifts from 1 near masses, so divide it out to keep steps in world units
+    const speed = Math.hypot(vx, vz) || 1;
+    const ds = Math.min(Math.max(STEP_FRACTION * nearest, MIN_STEP), maxStep) / speed;
+
+    const k1 = accel(x, z, vx, vz);
+    const k2 = accel(x + 0.5 * ds * vx, z + 0.5 * ds * vz, vx + 0.5 * ds * k1.ax, vz + 0.5 * ds * k1.az);
+    const v2x = vx + 0.5 * ds * k1.ax;
+    const v2z = vz + 0.5 * ds * k1.az;
+    const k3 = accel(x + 0.5 * ds * v2x, z + 0.5 * ds * v2z, vx + 0.5 * ds * k2.ax, vz + 0.5 * ds * k2.az);
+    const v3x = vx + 0.5 * ds * k2.ax;
+    const v3z = vz + 0.5 * ds * k2.az;
+    const k4 = accel(x + ds * v3x, z + ds * v3z, vx + ds * k3.ax, vz + ds * k3.az);
+    const v4x = vx + ds * k3.ax;
+    const v4z = vz + ds * k3.az;
+
+    x += (ds / 6) * (vx + 2 * v2x + 2 * v3x + v4x);
+    z += (ds / 6) * (vz + 2 * v2z + 2 * v3z + v4z);
+    vx += (ds / 6) * (k1.ax + 2 * k2.ax + 2 * k3.ax + k4.ax);
+    vz += (ds / 6) * (k1.az + 2 * k2.az + 2 * k3.az + k4.az);
+
+    const outside = x < minX || x > maxX || z < minZ || z > maxZ;
+    const last = points[points.length - 1];
+    if (outside || Math.hypot(x - last.x, z - last.z) >= pointSpacing) {
+      points.push({ x, z });
+    }
+    if (outside) break;
+  }
+
+  const deflection = Math.atan2(direction.x * vz - direction.z * vx, direction.x * vx + direction.z * vz);
+  return { points, captured: false, deflection };
+}
+
+/**
+ * Physically based counterpart of `traceRays`: the same fan of parallel rays from
+ * the -X edge, integrated as photon orbits around `bodies`.
+ */
+export function traceSchwarzschildRays(
+  bodies: ReadonlyArray<PhysicsBody>,
+  bounds: PlaneBounds,
+  rayCount: number = DEFAULT_RAY_OPTIONS.rayCount,
+  options: NullGeodesicOptions = {},
+): NullGeodesic[] {
+  const paths: NullGeodesic[] = [];
+  for (let r = 0; r < rayCount; r++) {
+    const t = rayCount === 1 ? 0.5 : r / (rayCount - 1);
+    const start = { x: bounds.minX, z: bounds.minZ * (1 - t) + bounds.maxZ * t };
+    paths.push(traceNullGeodesic(bodies, start, { x: 1, z: 0 }, bounds, options));
+  }
+  return paths;
+}
+
+// A light source as drawn: the rays it emits, how far each is integrated and their color
+export interface TracedSource extends RaySource {
+  stepBudget: number;
+  color: string;
+}
+
+export interface TracedRay {
+  path: RayPath | NullGeodesic;
+  color: string;
+}
+
+/**
+ * Every ray of `sources`, or the default beam across the field in `defaultColor`
+ * when there are none: photon orbits around `bodies` when `physical`, the visual
+ * heuristic through `field` otherwise.
+ */
+export function traceLightSources(
+  bodies: ReadonlyArray<PhysicsBody>,
+  field: PotentialField,
+  sources: ReadonlyArray<TracedSource>,
+  physical: boolean,
+  defaultColor: string,
+): TracedRay[] {
+  if (sources.length === 0) {
+    const paths = physical ? traceSchwarzschildRays(bodies, field) : traceRays(field);
+    return paths.map((path) => ({ path, color: defaultColor }));
+  }
+
+  const traced: TracedRay[] = [];
+  for (const source of sources) {
+    for (const { start, direction } of emitterRays(source)) {
+      const path = physical
+        ? traceNullGeodesic(bodies, start, direction, field, { stepBudget: source.stepBudget })
+        : traceHeuristicRay(field, start, direction, { stepCount: source.stepBudget });
+      traced.push({ path, color: source.color });
+    }
+  }
+  return traced;
+}
@@ -0,0 +1,15 @@
+export * from "./barnesHut";
+export * from "./clocks";
+export * from "./collisions";
+export * from "./constants";
+export * from "./embedding";
+export * from "./field";
+export * from "./geodesics";
+export * from "./inspiral";
+export * from "./lensing";
+export * from "./lod";
+export * from "./nbody";
+export * from "./objectTypes";
+export * from "./particles";
+export * from "./precession";
+export * from "./types";
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { GRAVITATIONAL_CONSTANT, SPEED_OF_LIGHT } from "./constants";
+import { boundCompactPairs, coalescenceTime, describeBinary } from "./inspiral";
+import { advanceSimulation, circularOrbitVelocity, createSimulationState, NBodyBody, totalEnergy } from "./nbody";
+
+const at = (x: number, z: number) => ({ x, y: 0, z });
+
+// Two neutron stars on a circular orbit `separation` apart, about their center of mass
+const binary = (separation: number): NBodyBody[] => {
+  const a: NBodyBody = { type: "neutronstar", mass: 1000, position: at(-separation / 2, 0), velocity: at(0, 0) };
+  const b: NBodyBody = { type: "neutronstar", mass: 1000, position: at(separation / 2, 0), velocity: at(0, 0) };
+  const relative = circularOrbitVelocity(b, { ...a, velocity: at(0, 0) });
+  a.velocity = { x: -relative.x / 2, y: 0, z: -relative.z / 2 };
+  b.velocity = { x: relative.x / 2, y: 0, z: relative.z / 2 };
+  return [a, b];
+};
+
+describe("boundCompactPairs", () => {
+  it("pairs compact bodies on bound orbits, most bound first", () => {
+    const [a, b] = binary(2);
+    const [c, d] = binary(1).map((body) => ({ ...body, position: { ...body.position, z: body.position.z + 50 } }));
+    const star: NBodyBody = { type: "star", mass: 100, position: at(0, 1), velocity: at(0, 0) };
+    const runaway: NBodyBody = { type: "blackhole", mass: 10000, position: at(0, -50), velocity: at(500, 0) };
+
+    expect(boundCompactPairs([a, b, c, d, star, runaway])).toEqual([
+      [2, 3],
+      [0, 1],
+    ]);
+  });
+});
+
+describe("coalescenceTime", () => {
+  it("follows the circular Peters formula and shortens with eccentricity", () => {
+    const circular = coalescenceTime(1000, 1000, 2, 0);
+    const expected = ((5 / 256) * SPEED_OF_LIGHT ** 5 * 16) / (GRAVITATIONAL_CONSTANT ** 3 * 1000 * 1000 * 2000);
+    expect(circular).toBeCloseTo(expected, 6);
+    expect(coalescenceTime(1000, 1000, 2, 0.6)).toBeLessThan(circular / 4);
+  });
+});
+
+describe("radiation reaction", () => {
+  it("shrinks a circular binary on the Peters timescale", () => {
+    const state = createSimulationState(binary(2), { radiationReaction: true });
+    const predicted = describeBinary(state.bodies[0], state.bodies[1]).timeToCoalescence;
+
+    // Time to shrink from a = 2 to a = 1 is the full time less what remains at a = 1
+    const remaining = coalescenceTime(1000, 1000, 1, 0);
+    let shrunkAt = 0;
+    while (!shrunkAt && state.time < predicted) {
+      advanceSimulation(state, 1);
+      if (describeBinary(state.bodies[0], state.bodies[1]).semiMajorAxis <= 1) shrunkAt = state.time;
+    }
+
+    expect(shrunkAt / (predicted - remaining)).toBeCloseTo(1, 1);
+  });
+
+  it("leaves other bodies and the Newtonian energy alone when off", () => {
+    const state = createSimulationState(binary(2));
+    const initial = totalEnergy(state.bodies);
+    advanceSimulation(state, 20);
+    expect(totalEnergy(state.bodies) / initial).toBeCloseTo(1, 4);
+  });
+});
+
+describe("describeBinary", () => {
+  it("reports a circular orbit's elements and a strain at twice the orbital frequency", () => {
+    const [a, b] = binary(2);
+    const status = describeBinary(b, a);
+    const omega = Math.sqrt((GRAVITATIONAL_CONSTANT * 2000) / 8);
+
+    expect(status.semiMajorAxis).toBeCloseTo(2, 6);
+    expect(status.eccentricity).toBeCloseTo(0, 6);
+    expect(status.frequency).toBeCloseTo(omega / Math.PI, 6);
+    // Face-on amplitude 4Gμ(ωa)²/c⁴ at the start of the cycle
+    const mu = 500;
+    expect(Math.abs(status.strain)).toBeCloseTo((4 * GRAVITATIONAL_CONSTANT * mu * omega * omega * 4) / SPEED_OF_LIGHT ** 4, 9);
+  });
+});
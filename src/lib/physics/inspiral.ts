@@ -0,0 +1,148 @@
+import { GRAVITATIONAL_CONSTANT, SPEED_OF_LIGHT } from "./constants";
+import { schwarzschildRadius } from "./geodesics";
+import type { NBodyBody } from "./nbody";
+import { isCompactType } from "./objectTypes";
+import type { Vec3 } from "./types";
+
+export interface BinaryStatus {
+  separation: number;
+  semiMajorAxis: number;
+  eccentricity: number;
+  timeToCoalescence: number; // seconds, from the Peters formula
+  strain: number; // h+ times the observer's distance, seen face-on from above
+  frequency: number; // gravitational-wave frequency in Hz, twice the orbital frequency
+}
+
+const sub = (a: Vec3, b: Vec3): Vec3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+const dot = (a: Vec3, b: Vec3) => a.x * b.x + a.y * b.y + a.z * b.z;
+
+// Relative orbit of `a` about `b`: separation, velocity and gravitational parameter G(m₁+m₂)
+function relativeOrbit(a: NBodyBody, b: NBodyBody) {
+  const x = sub(a.position, b.position);
+  const v = sub(a.velocity, b.velocity);
+  return { x, v, r: Math.sqrt(dot(x, x)), gm: GRAVITATIONAL_CONSTANT * (a.mass + b.mass) };
+}
+
+/**
+ * Pairs of neutron stars and black holes on bound two-body orbits. Each body joins
+ * at most one pair, the most tightly bound one it is part of; pairs come most bound
+ * first, as index pairs into `bodies`.
+ */
+export function boundCompactPairs(bodies: ReadonlyArray<NBodyBody>): Array<[number, number]> {
+  const candidates: Array<{ i: number; j: number; energy: number }> = [];
+  for (let i = 0; i < bodies.length; i++) {
+    if (!isCompactType(bodies[i].type ?? "")) continue;
+    for (let j = i + 1; j < bodies.length; j++) {
+      if (!isCompactType(bodies[j].type ?? "")) continue;
+      const { v, r, gm } = relativeOrbit(bodies[i], bodies[j]);
+      // Specific orbital energy of the pair's relative motion
+      const energy = 0.5 * dot(v, v) - gm / r;
+      if (energy < 0) candidates.push({ i, j, energy });
+    }
+  }
+
+  candidates.sort((a, b) => a.energy - b.energy);
+  const paired = new Set<number>();
+  const pairs: Array<[number, number]> = [];
+  for (const { i, j } of candidates) {
+    if (paired.has(i) || paired.has(j)) continue;
+    paired.add(i);
+    paired.add(j);
+    pairs.push([i, j]);
+  }
+  return pairs;
+}
+
+/**
+ * Leading-order (2.5PN) radiation reaction on every bound compact pair, the force
+ * behind the Peters quadrupole energy loss. For the relative motion it is
+ * (8/5) η (GM)²/(c⁵r³) [(3v² + 17GM/3r) ṙ n − (v² + 3GM/r) v], split between the
+ * two bodies by mass so total momentum is unchanged. Pairs closer than the sum of
+ * their horizons are left alone; they have merged as far as the waves are concerned.
+ */
+export function radiationReactionAccelerations(bodies: ReadonlyArray<NBodyBody>): Vec3[] {
+  const acc = bodies.map(() => ({ x: 0, y: 0, z: 0 }));
+  const c5 = SPEED_OF_LIGHT ** 5;
+
+  for (const [i, j] of boundCompactPairs(bodies)) {
+    const a = bodies[i];
+    const b = bodies[j];
+    const { x, v, r, gm } = relativeOrbit(a, b);
+    if (r <= schwarzschildRadius(a.mass) + schwarzschildRadius(b.mass)) continue;
+
+    const total = a.mass + b.mass;
+    const eta = (a.mass * b.mass) / (total * total);
+    const v2 = dot(v, v);
+    const rDot = dot(x, v) / r;
+    const k = (1.6 * eta * gm * gm) / (c5 * r * r * r);
+    const radial = (k * (3 * v2 + (17 * gm) / (3 * r)) * rDot) / r;
+    const along = -k * (v2 + (3 * gm) / r);
+
+    const rel = { x: radial * x.x + along * v.x, y: radial * x.y + along * v.y, z: radial * x.z + along * v.z };
+    const wa = b.mass / total;
+    const wb = a.mass / total;
+    acc[i].x += wa * rel.x;
+    acc[i].y += wa * rel.y;
+    acc[i].z += wa * rel.z;
+    acc[j].x -= wb * rel.x;
+    acc[j].y -= wb * rel.y;
+    acc[j].z -= wb * rel.z;
+  }
+
+  return acc;
+}
+
+/**
+ * Time for a binary to spiral in from the Peters formula: (5/256) c⁵a⁴/(G³m₁m₂M)
+ * for a circular orbit, shortened for eccentric ones with the fit of Mandel (2021)
+ * to Peters' integral, which is good to a few percent for any e.
+ */
+export function coalescenceTime(m1: number, m2: number, semiMajorAxis: number, eccentricity: number): number {
+  const circular =
+    (5 / 256) *
+    (SPEED_OF_LIGHT ** 5 * semiMajorAxis ** 4) /
+    (GRAVITATIONAL_CONSTANT ** 3 * m1 * m2 * (m1 + m2));
+  const e2 = eccentricity * eccentricity;
+  const correction = 1 + 0.27 * eccentricity ** 10 + 0.33 * eccentricity ** 20 + 0.2 * eccentricity ** 1000;
+  return circular * correction * (1 - e2) ** 3.5;
+}
+
+/**
+ * Orbit of a compact pair and the gravitational waves it emits. The strain comes
+ * from the quadrupole formula for an observer on the orbital axis,
+ * D·h+ = (G/c⁴)(Ï_xx − Ï_zz), with Ï_ij = 2μ(v_i v_j − GM x_i x_j/r³) for
+ * Newtonian two-body motion.
+ */
+export function describeBinary(a: NBodyBody, b: NBodyBody): BinaryStatus {
+  const { x, v, r, gm } = relativeOrbit(a, b);
+  const v2 = dot(v, v);
+  const semiMajorAxis = 1 / (2 / r - v2 / gm);
+
+  // Eccentricity vector ((v² − GM/r) x − (x·v) v) / GM
+  const rv = dot(x, v);
+  const e = {
+    x: ((v2 - gm / r) * x.x - rv * v.x) / gm,
+    y: ((v2 - gm / r) * x.y - rv * v.y) / gm,
+    z: ((v2 - gm / r) * x.z - rv * v.z) / gm,
+  };
+  const eccentricity = Math.sqrt(dot(e, e));
+
+  const mu = (a.mass * b.mass) / (a.mass + b.mass);
+  const strain =
+    ((2 * GRAVITATIONAL_CONSTANT * mu) / SPEED_OF_LIGHT ** 4) *
+    (v.x * v.x - v.z * v.z - (gm * (x.x * x.x - x.z * x.z)) / (r * r * r));
+
+  // Angular momentum per unit reduced mass gives the instantaneous angular velocity h/r²
+  const h = Math.hypot(x.y * v.z - x.z * v.y, x.z * v.x - x.x * v.z, x.x * v.y - x.y * v.x);
+  const frequency = h / (Math.PI * r * r);
+
+  return {
+    separation: r,
+    semiMajorAxis,
+    eccentricity,
+    timeToCoalescence:
+      semiMajorAxis > 0 && eccentricity < 1 ? coalescenceTime(a.mass, b.mass, semiMajorAxis, eccentricity) : Infinity,
+    strain,
+    frequency,
+  };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { einsteinAngle, lensedDirection, shadowAngle } from "./lensing";
+
+// Horizon radius 0.5, seen from 16 units away
+const blackHole = { mass: 10000, position: { x: 0, y: 0, z: 0 } };
+const observer = { x: 0, y: 0, z: 16 };
+
+const angleBetween = (a: { x: number; y: number; z: number }, b: { x: number; y: number; z: number }) =>
+  Math.acos(Math.min(1, (a.x * b.x + a.y * b.y + a.z * b.z) / (Math.hypot(a.x, a.y, a.z) * Math.hypot(b.x, b.y, b.z))));
+
+const lookingAt = (theta: number) => ({ x: Math.sin(theta), y: 0, z: -Math.cos(theta) });
+
+describe("lensing", () => {
+  it("sizes the Einstein ring and shadow from the horizon", () => {
+    expect(einsteinAngle(blackHole.mass, 16)).toBeCloseTo(0.25);
+    expect(shadowAngle(blackHole.mass, 16)).toBeCloseTo(Math.atan((1.5 * Math.sqrt(3) * 0.5) / 16));
+    expect(einsteinAngle(blackHole.mass, 0)).toBe(0);
+  });
+
+  it("shows the source directly behind the lens on the Einstein ring", () => {
+    const source = lensedDirection(observer, lookingAt(0.25), [blackHole]);
+    expect(source).not.toBeNull();
+    expect(angleBetween(source!, { x: 0, y: 0, z: -1 })).toBeLessThan(0.01);
+  });
+
+  it("shifts distant images outward by θ_E²/θ", () => {
+    const theta = 1;
+    const view = lookingAt(theta);
+    const source = lensedDirection(observer, view, [blackHole])!;
+
+    expect(angleBetween(source, view)).toBeCloseTo(0.25 ** 2 / theta, 2);
+    // The source sits closer to the lens than its image
+    expect(angleBetween(source, { x: 0, y: 0, z: -1 })).toBeLessThan(theta);
+  });
+
+  it("returns null inside the shadow and ignores lenses behind the observer", () => {
+    expect(lensedDirection(observer, lookingAt(0), [blackHole])).toBeNull();
+
+    const away = { x: 0, y: 0, z: 1 };
+    expect(lensedDirection(observer, away, [blackHole])).toEqual(away);
+  });
+});
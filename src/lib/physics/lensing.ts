@@ -0,0 +1,60 @@
+import { schwarzschildRadius } from "./geodesics";
+import type { PhysicsBody, Vec3 } from "./types";
+
+// Critical impact parameter of a Schwarzschild black hole, in units of its horizon radius
+export const SHADOW_RADIUS_FACTOR = (3 * Math.sqrt(3)) / 2;
+
+/**
+ * Angular Einstein radius of a point lens at `distance` from the observer, for
+ * sources at infinity: θ_E = √(4GM / (c² D)) = √(2 r_s / D).
+ */
+export function einsteinAngle(mass: number, distance: number): number {
+  return distance > 0 ? Math.sqrt((2 * schwarzschildRadius(mass)) / distance) : 0;
+}
+
+// Angular radius of the shadow: rays aimed closer than the critical impact parameter are captured
+export function shadowAngle(mass: number, distance: number): number {
+  return distance > 0 ? Math.atan((SHADOW_RADIUS_FACTOR * schwarzschildRadius(mass)) / distance) : 0;
+}
+
+const normalize = (v: Vec3): Vec3 => {
+  const length = Math.hypot(v.x, v.y, v.z) || 1;
+  return { x: v.x / length, y: v.y / length, z: v.z / length };
+};
+
+/**
+ * Thin-lens mapping from the direction an observer looks in to the direction of the
+ * background source they see there, or null when the ray falls into a shadow.
+ * Each lens turns the ray by the point-lens equation β = θ - θ_E²/θ, and several
+ * lenses are superposed, which is accurate while they are well separated on the sky.
+ * The starfield shader performs the same computation per pixel.
+ */
+export function lensedDirection(observer: Vec3, direction: Vec3, lenses: ReadonlyArray<PhysicsBody>): Vec3 | null {
+  const d = normalize(direction);
+  let source = { ...d };
+
+  for (const lens of lenses) {
+    const offset = { x: lens.position.x - observer.x, y: lens.position.y - observer.y, z: lens.position.z - observer.z };
+    const distance = Math.hypot(offset.x, offset.y, offset.z);
+    const l = normalize(offset);
+    const cos = d.x * l.x + d.y * l.y + d.z * l.z;
+    // Lenses behind the observer don't affect what is in front
+    if (cos <= 0) continue;
+
+    const theta = Math.acos(Math.min(1, cos));
+    if (theta < shadowAngle(lens.mass, distance)) return null;
+    if (theta === 0) continue;
+
+    // Turn the ray toward the lens by θ_E²/θ, about the axis through the ray and the lens
+    const thetaE = einsteinAngle(lens.mass, distance);
+    const shift = (thetaE * thetaE) / theta;
+    const toward = normalize({ x: l.x - d.x * cos, y: l.y - d.y * cos, z: l.z - d.z * cos });
+    source = {
+      x: source.x * Math.cos(shift) + toward.x * Math.sin(shift),
+      y: source.y * Math.cos(shift) + toward.y * Math.sin(shift),
+      z: source.z * Math.cos(shift) + toward.z * Math.sin(shift),
+    };
+  }
+
+  return normalize(source);
+}
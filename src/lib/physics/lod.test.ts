@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { computeCurvatureField } from "./field";
+import { adaptiveGridAxes, equidistribute } from "./lod";
+
+const spacings = (coords: Float32Array) => Array.from(coords.slice(1), (c, i) => c - coords[i]);
+
+describe("equidistribute", () => {
+  it("spaces nodes evenly for uniform weights", () => {
+    const coords = equidistribute([1, 1, 1, 1, 1], -2, 2, 8);
+    expect(coords).toHaveLength(9);
+    for (const h of spacings(coords)) {
+      expect(h).toBeCloseTo(0.5);
+    }
+  });
+
+  it("packs nodes where the weight is high and keeps the endpoints", () => {
+    const coords = equidistribute([1, 1, 9, 1, 1], -2, 2, 16);
+    expect(coords[0]).toBe(-2);
+    expect(coords[16]).toBe(2);
+
+    const h = spacings(coords);
+    expect(h.every((s) => s > 0)).toBe(true);
+    expect(h[8]).toBeLessThan(h[0]);
+  });
+});
+
+describe("adaptiveGridAxes", () => {
+  const grid = { halfExtent: 10, divisions: 40 };
+
+  it("refines around a mass on both axes", () => {
+    const { field } = computeCurvatureField([{ mass: 50, position: { x: 4, y: 0, z: -3 } }], grid);
+    const { xs, zs } = adaptiveGridAxes(field, 32);
+
+    const spacingNear = (coords: Float32Array, at: number) => {
+      const h = spacings(coords);
+      const k = coords.findIndex((c) => c >= at);
+      return h[Math.max(0, k - 1)];
+    };
+    expect(spacingNear(xs, 4)).toBeLessThan(spacingNear(xs, -9));
+    expect(spacingNear(zs, -3)).toBeLessThan(spacingNear(zs, 9));
+  });
+
+  it("stays uniform without bodies", () => {
+    const { field } = computeCurvatureField([], grid);
+    const { xs } = adaptiveGridAxes(field, 20);
+    for (const h of spacings(xs)) {
+      expect(h).toBeCloseTo(1, 5);
+    }
+  });
+});
@@ -0,0 +1,85 @@
+import type { PotentialField } from "./types";
+
+// How much denser the mesh gets where the potential is steepest, relative to flat regions
+export const LOD_REFINEMENT = 6;
+
+// Vertex coordinates per axis of a tensor-product grid; vertex (ix, iz) sits at (xs[ix], zs[iz])
+export interface AdaptiveAxes {
+  xs: Float32Array;
+  zs: Float32Array;
+}
+
+/**
+ * Places `divisions + 1` nodes on [min, max] so each segment holds an equal share
+ * of the integral of `weights`, which are sampled uniformly across the same range.
+ * Heavily weighted stretches get short segments; the endpoints are kept exact.
+ */
+export function equidistribute(weights: ArrayLike<number>, min: number, max: number, divisions: number): Float32Array {
+  const n = weights.length;
+  const h = (max - min) / (n - 1);
+
+  // Trapezoidal running integral of the weights
+  const cumulative = new Float64Array(n);
+  for (let i = 1; i < n; i++) {
+    cumulative[i] = cumulative[i - 1] + 0.5 * (weights[i - 1] + weights[i]) * h;
+  }
+  const total = cumulative[n - 1];
+
+  const coords = new Float32Array(divisions + 1);
+  let j = 0;
+  for (let k = 0; k <= divisions; k++) {
+    const target = (total * k) / divisions;
+    while (j < n - 2 && cumulative[j + 1] < target) j++;
+    const segment = cumulative[j + 1] - cumulative[j];
+    const f = segment > 0 ? Math.min(Math.max((target - cumulative[j]) / segment, 0), 1) : 0;
+    coords[k] = min + (j + f) * h;
+  }
+  coords[0] = min;
+  coords[divisions] = max;
+  return coords;
+}
+
+/**
+ * Non-uniform node positions for a `divisions`×`divisions` sheet, refined where the
+ * potential's gradient is large. Each axis is refined by the steepest gradient found
+ * along it, so rows and columns stay straight and shared: the mesh remains a single
+ * conforming grid, with no T-junctions and therefore no cracks.
+ */
+export function adaptiveGridAxes(
+  field: PotentialField,
+  divisions: number,
+  refinement: number = LOD_REFINEMENT,
+): AdaptiveAxes {
+  const { values, nx, nz, minX, maxX, minZ, maxZ } = field;
+  const dx = (maxX - minX) / (nx - 1);
+  const dz = (maxZ - minZ) / (nz - 1);
+  const at = (ix: number, iz: number) => values[iz * nx + ix];
+
+  // Steepest gradient per column and per row, by central differences (one-sided at the border)
+  const columnSlope = new Float32Array(nx);
+  const rowSlope = new Float32Array(nz);
+  let maxSlope = 0;
+  for (let iz = 0; iz < nz; iz++) {
+    const z0 = Math.max(0, iz - 1);
+    const z1 = Math.min(nz - 1, iz + 1);
+    for (let ix = 0; ix < nx; ix++) {
+      const x0 = Math.max(0, ix - 1);
+      const x1 = Math.min(nx - 1, ix + 1);
+      const gx = (at(x1, iz) - at(x0, iz)) / ((x1 - x0) * dx);
+      const gz = (at(ix, z1) - at(ix, z0)) / ((z1 - z0) * dz);
+      const slope = Math.hypot(gx, gz);
+      columnSlope[ix] = Math.max(columnSlope[ix], slope);
+      rowSlope[iz] = Math.max(rowSlope[iz], slope);
+      maxSlope = Math.max(maxSlope, slope);
+    }
+  }
+
+  // Square root softens the 1/r² peak so refinement spreads over the whole well
+  const toWeights = (slopes: Float32Array) =>
+    Array.from(slopes, (slope) => 1 + (maxSlope > 0 ? refinement * Math.sqrt(slope / maxSlope) : 0));
+
+  return {
+    xs: equidistribute(toWeights(columnSlope), minX, maxX, divisions),
+    zs: equidistribute(toWeights(rowSlope), minZ, maxZ, divisions),
+  };
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { GRAVITATIONAL_CONSTANT, SPEED_OF_LIGHT } from "./constants";
+import {
+  advanceSimulation,
+  circularOrbitVelocity,
+  computeAccelerations,
+  createSimulationState,
+  NBodyBody,
+  postNewtonianAccelerations,
+  totalEnergy,
+} from "./nbody";
+
+const at = (x: number, z: number) => ({ x, y: 0, z });
+
+const binary = (): NBodyBody[] => {
+  const star: NBodyBody = { mass: 100, position: at(0, 0), velocity: at(0, 0) };
+  const planet: NBodyBody = { mass: 1, position: at(5, 0), velocity: at(0, 0) };
+  planet.velocity = circularOrbitVelocity(planet, star);
+  return [star, planet];
+};
+
+describe("computeAccelerations", () => {
+  it("follows the inverse square law and Newton's third law", () => {
+    const [a, b] = computeAccelerations([
+      { mass: 2, position: at(0, 0) },
+      { mass: 8, position: at(10, 0) },
+    ]);
+
+    expect(a.x).toBeCloseTo((GRAVITATIONAL_CONSTANT * 8) / 100, 6);
+    expect(b.x).toBeCloseTo((-GRAVITATIONAL_CONSTANT * 2) / 100, 6);
+    expect(2 * a.x + 8 * b.x).toBeCloseTo(0, 12);
+  });
+});
+
+describe("velocity Verlet integration", () => {
+  it("keeps a circular orbit at constant radius and conserves energy", () => {
+    const state = createSimulationState(binary());
+    const initialEnergy = totalEnergy(state.bodies);
+
+    advanceSimulation(state, 60);
+
+    const [star, planet] = state.bodies;
+    const r = Math.hypot(planet.position.x - star.position.x, planet.position.z - star.position.z);
+    expect(r).toBeCloseTo(5, 1);
+    expect(totalEnergy(state.bodies) / initialEnergy).toBeCloseTo(1, 4);
+    expect(state.time).toBeCloseTo(60);
+  });
+
+  it("conserves total momentum", () => {
+    const state = createSimulationState(binary());
+    advanceSimulation(state, 10);
+
+    const px = state.bodies.reduce((acc, b) => acc + b.mass * b.velocity.x, 0);
+    const pz = state.bodies.reduce((acc, b) => acc + b.mass * b.velocity.z, 0);
+    const [, planet] = binary();
+    expect(px).toBeCloseTo(planet.velocity.x, 9);
+    expect(pz).toBeCloseTo(planet.velocity.z, 9);
+  });
+
+  it("returns to the start after one orbital period", () => {
+    const state = createSimulationState(binary());
+    const period = 2 * Math.PI * Math.sqrt(125 / (GRAVITATIONAL_CONSTANT * 101));
+    advanceSimulation(state, period);
+
+    const [star, planet] = state.bodies;
+    expect(planet.position.x - star.position.x).toBeCloseTo(5, 1);
+    expect(planet.position.z - star.position.z).toBeCloseTo(0, 1);
+  });
+});
+
+describe("postNewtonianAccelerations", () => {
+  it("reduces to the Schwarzschild test-particle correction around a dominant mass", () => {
+    const star: NBodyBody = { mass: 1000, position: at(0, 0), velocity: at(0, 0) };
+    const probe: NBodyBody = { mass: 0.000001, position: at(10, 0), velocity: { x: 0.5, y: 0, z: -1 } };
+    const [, a] = postNewtonianAccelerations([star, probe]);
+
+    // -GM/r² [(1 - 4GM/(rc²) + v²/c²) r̂ - 4 (r̂·v) v / c²], with r̂ = +x
+    const gm = GRAVITATIONAL_CONSTANT * star.mass;
+    const c2 = SPEED_OF_LIGHT * SPEED_OF_LIGHT;
+    const v2 = 0.5 * 0.5 + 1;
+    const expectedX = (-gm / 100) * (1 - (4 * gm) / (10 * c2) + v2 / c2 - (4 * 0.5 * 0.5) / c2);
+    const expectedZ = (-gm / 100) * ((-4 * 0.5 * -1) / c2);
+
+    expect(a.x / expectedX).toBeCloseTo(1, 3);
+    expect(a.z / expectedZ).toBeCloseTo(1, 3);
+  });
+
+  it("is only used when the state asks for it", () => {
+    const newtonian = createSimulationState(binary());
+    const relativistic = createSimulationState(binary(), { postNewtonian: true });
+    expect(relativistic.accelerations[1].x).not.toBeCloseTo(newtonian.accelerations[1].x, 6);
+  });
+});
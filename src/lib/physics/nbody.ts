@@ -0,0 +1,234 @@
+import { GRAVITATIONAL_CONSTANT, SOFTENING_LENGTH, SPEED_OF_LIGHT } from "./constants";
+import { radiationReactionAccelerations } from "./inspiral";
+import type { PhysicsBody, Vec3 } from "./types";
+
+export interface NBodyBody extends PhysicsBody {
+  velocity: Vec3;
+  type?: string; // object type, when known; compact types can radiate gravitational waves
+}
+
+// Corrections to Newtonian gravity; all off is plain softened Newtonian gravity
+export interface GravityModel {
+  postNewtonian: boolean; // first post-Newtonian (EIH) corrections
+  radiationReaction: boolean; // gravitational-wave energy loss of bound compact pairs
+}
+
+export interface SimulationState<T extends NBodyBody = NBodyBody> extends GravityModel {
+  bodies: T[];
+  accelerations: Vec3[]; // acceleration of each body at the current positions
+  time: number; // elapsed simulation time in seconds
+}
+
+export const MAX_SUBSTEP = 1 / 240; // largest integration step in seconds
+
+const zero = (): Vec3 => ({ x: 0, y: 0, z: 0 });
+
+/**
+ * Softened Newtonian acceleration of every body due to all others.
+ */
+export function computeAccelerations(bodies: ReadonlyArray<PhysicsBody>): Vec3[] {
+  const acc = bodies.map(zero);
+  const eps2 = SOFTENING_LENGTH * SOFTENING_LENGTH;
+
+  for (let i = 0; i < bodies.length; i++) {
+    const a = bodies[i];
+    for (let j = i + 1; j < bodies.length; j++) {
+      const b = bodies[j];
+      const dx = b.position.x - a.position.x;
+      const dy = b.position.y - a.position.y;
+      const dz = b.position.z - a.position.z;
+      const r2 = dx * dx + dy * dy + dz * dz + eps2;
+      const invR3 = 1 / (r2 * Math.sqrt(r2));
+
+      const fa = GRAVITATIONAL_CONSTANT * b.mass * invR3;
+      acc[i].x += dx * fa;
+      acc[i].y += dy * fa;
+      acc[i].z += dz * fa;
+
+      const fb = GRAVITATIONAL_CONSTANT * a.mass * invR3;
+      acc[j].x -= dx * fb;
+      acc[j].y -= dy * fb;
+      acc[j].z -= dz * fb;
+    }
+  }
+
+  return acc;
+}
+
+/**
+ * Accelerations to first post-Newtonian order, from the Einstein–Infeld–Hoffmann
+ * equations. The Newtonian accelerations stand in for the accelerations inside the
+ * correction terms, which is consistent at this order, and distances are softened
+ * like the Newtonian sum. Around a dominant mass the corrections reduce to the
+ * Schwarzschild test-particle motion, so bound orbits advance their periapsis.
+ */
+export function postNewtonianAccelerations(bodies: ReadonlyArray<NBodyBody>): Vec3[] {
+  const newtonian = computeAccelerations(bodies);
+  const acc = newtonian.map((a) => ({ ...a }));
+  const eps2 = SOFTENING_LENGTH * SOFTENING_LENGTH;
+  const c2 = SPEED_OF_LIGHT * SPEED_OF_LIGHT;
+  const distance = (a: PhysicsBody, b: PhysicsBody) =>
+    Math.sqrt(
+      (b.position.x - a.position.x) ** 2 + (b.position.y - a.position.y) ** 2 + (b.position.z - a.position.z) ** 2 + eps2,
+    );
+  const dot = (u: Vec3, v: Vec3) => u.x * v.x + u.y * v.y + u.z * v.z;
+
+  // Newtonian potential GM/r felt by each body from all the others
+  const potential = bodies.map((a, i) =>
+    bodies.reduce((sum, b, j) => (i === j ? sum : sum + (GRAVITATIONAL_CONSTANT * b.mass) / distance(a, b)), 0),
+  );
+
+  for (let i = 0; i < bodies.length; i++) {
+    const a = bodies[i];
+    const va = a.velocity;
+    for (let j = 0; j < bodies.length; j++) {
+      if (i === j) continue;
+      const b = bodies[j];
+      const vb = b.velocity;
+      const ab = newtonian[j];
+      const d = { x: b.position.x - a.position.x, y: b.position.y - a.position.y, z: b.position.z - a.position.z };
+      const r = distance(a, b);
+      const n = { x: -d.x / r, y: -d.y / r, z: -d.z / r }; // unit vector from b to a
+      const gm = GRAVITATIONAL_CONSTANT * b.mass;
+
+      // Correction to the Newtonian pull toward b, whose leading 1 is already in `newtonian`
+      const bracket =
+        (-4 * potential[i] -
+          potential[j] +
+          dot(va, va) +
+          2 * dot(vb, vb) -
+          4 * dot(va, vb) -
+          1.5 * dot(vb, n) ** 2 +
+          0.5 * dot(d, ab)) /
+        c2;
+      const pull = (gm / (r * r * r)) * bracket;
+      // Velocity-dependent term along the relative velocity
+      const drag = (gm / (r * r * c2)) * (4 * dot(n, va) - 3 * dot(n, vb));
+      // b's own acceleration, felt through the retarded field
+      const carried = (3.5 * gm) / (r * c2);
+
+      acc[i].x += pull * d.x + drag * (va.x - vb.x) + carried * ab.x;
+      acc[i].y += pull * d.y + drag * (va.y - vb.y) + carried * ab.y;
+      acc[i].z += pull * d.z + drag * (va.z - vb.z) + carried * ab.z;
+    }
+  }
+
+  return acc;
+}
+
+function accelerationsOf<T extends NBodyBody>({ bodies, postNewtonian, radiationReaction }: SimulationState<T>): Vec3[] {
+  const acc = postNewtonian ? postNewtonianAccelerations(bodies) : computeAccelerations(bodies);
+  if (radiationReaction) {
+    radiationReactionAccelerations(bodies).forEach((a, i) => {
+      acc[i].x += a.x;
+      acc[i].y += a.y;
+      acc[i].z += a.z;
+    });
+  }
+  return acc;
+}
+
+export function createSimulationState<T extends NBodyBody>(
+  bodies: T[],
+  gravity: Partial<GravityModel> = {},
+): SimulationState<T> {
+  const state: SimulationState<T> = {
+    bodies,
+    accelerations: [],
+    time: 0,
+    postNewtonian: gravity.postNewtonian ?? false,
+    radiationReaction: gravity.radiationReaction ?? false,
+  };
+  state.accelerations = accelerationsOf(state);
+  return state;
+}
+
+/**
+ * Advances the state by one velocity Verlet (kick-drift-kick) step, in place.
+ * Call `refreshAccelerations` first if bodies were added, removed or re-massed.
+ * With velocity-dependent terms (post-Newtonian, radiation reaction) the closing
+ * accelerations use the half-kicked velocities, which keeps the step second-order accurate.
+ */
+export function stepVelocityVerlet<T extends NBodyBody>(state: SimulationState<T>, dt: number): void {
+  const { bodies } = state;
+  const half = dt / 2;
+
+  for (let i = 0; i < bodies.length; i++) {
+    const { velocity, position } = bodies[i];
+    const a = state.accelerations[i];
+    velocity.x += a.x * half;
+    velocity.y += a.y * half;
+    velocity.z += a.z * half;
+    position.x += velocity.x * dt;
+    position.y += velocity.y * dt;
+    position.z += velocity.z * dt;
+  }
+
+  state.accelerations = accelerationsOf(state);
+
+  for (let i = 0; i < bodies.length; i++) {
+    const { velocity } = bodies[i];
+    const a = state.accelerations[i];
+    velocity.x += a.x * half;
+    velocity.y += a.y * half;
+    velocity.z += a.z * half;
+  }
+
+  state.time += dt;
+}
+
+// Integrates `duration` seconds in substeps no larger than MAX_SUBSTEP, calling `afterStep` after each
+export function advanceSimulation<T extends NBodyBody>(
+  state: SimulationState<T>,
+  duration: number,
+  afterStep?: (state: SimulationState<T>) => void,
+): void {
+  if (duration <= 0) return;
+  const steps = Math.ceil(duration / MAX_SUBSTEP);
+  const dt = duration / steps;
+  for (let i = 0; i < steps; i++) {
+    stepVelocityVerlet(state, dt);
+    afterStep?.(state);
+  }
+}
+
+export function refreshAccelerations<T extends NBodyBody>(state: SimulationState<T>): void {
+  state.accelerations = accelerationsOf(state);
+}
+
+// Velocity for a circular orbit of `body` around `center` in the XZ plane (counter-clockwise from above)
+export function circularOrbitVelocity(body: PhysicsBody, center: NBodyBody): Vec3 {
+  return periapsisVelocity(body, center, 0);
+}
+
+// Velocity that puts `body` at the periapsis of an orbit of the given eccentricity around `center`
+export function periapsisVelocity(body: PhysicsBody, center: NBodyBody, eccentricity: number): Vec3 {
+  const dx = body.position.x - center.position.x;
+  const dz = body.position.z - center.position.z;
+  const r = Math.hypot(dx, dz);
+  if (r === 0) return { ...center.velocity };
+
+  const speed = Math.sqrt((GRAVITATIONAL_CONSTANT * (center.mass + body.mass) * (1 + eccentricity)) / r);
+  return {
+    x: center.velocity.x + (dz / r) * speed,
+    y: center.velocity.y,
+    z: center.velocity.z - (dx / r) * speed,
+  };
+}
+
+export function totalEnergy(bodies: ReadonlyArray<NBodyBody>): number {
+  const eps2 = SOFTENING_LENGTH * SOFTENING_LENGTH;
+  let kinetic = 0;
+  let potential = 0;
+  for (let i = 0; i < bodies.length; i++) {
+    const { mass, velocity: v } = bodies[i];
+    kinetic += 0.5 * mass * (v.x * v.x + v.y * v.y + v.z * v.z);
+    for (let j = i + 1; j < bodies.length; j++) {
+      const dx = bodies[j].position.x - bodies[i].position.x;
+      const dy = bodies[j].position.y - bodies[i].position.y;
+      const dz = bodies[j].position.z - bodies[i].position.z;
+      potential -= (GRAVITATIONAL_CONSTANT * mass * bodies[j].mass) / Math.sqrt(dx * dx + dy * dy + dz * dz + eps2);
+    }
+  }
+  return kinetic + potential;
+}
@@ -0,0 +1,45 @@
+export const OBJECT_TYPES = {
+  spaceship: { mass: 0.000001, color: 0x00ff88, size: 0.1 },
+  planet: { mass: 1, color: 0x4488ff, size: 0.3 },
+  star: { mass: 100, color: 0xffaa00, size: 0.5 },
+  neutronstar: { mass: 1000, color: 0xff4444, size: 0.2 },
+  blackhole: { mass: 10000, color: 0x000000, size: 0.4 },
+};
+
+export type ObjectTypeName = keyof typeof OBJECT_TYPES;
+
+// Heaviest neutron star in scene units; a compact remnant above this collapses to a black hole
+export const NEUTRON_STAR_MAX_MASS = 1500;
+// Lightest body that still counts as a star rather than a planet
+export const MIN_STAR_MASS = 10;
+// Anything lighter than this is a spacecraft
+export const MAX_SPACESHIP_MASS = 0.001;
+
+// Own keys only, so inherited names like "toString" aren't mistaken for object types
+export function isObjectType(type: string): type is ObjectTypeName {
+  return Object.prototype.hasOwnProperty.call(OBJECT_TYPES, type);
+}
+
+// Neutron stars and black holes: compact enough to radiate gravitational waves in a bound pair
+export function isCompactType(type: string): boolean {
+  return type === "neutronstar" || type === "blackhole";
+}
+
+export function objectSize(type: string): number {
+  return isObjectType(type) ? OBJECT_TYPES[type].size : OBJECT_TYPES.planet.size;
+}
+
+/**
+ * Type of the remnant when two bodies merge. Black holes stay black holes,
+ * compact remnants collapse once they pass the neutron star limit, and
+ * everything else is classified by its new mass.
+ */
+export function classifyMergedType(a: string, b: string, mass: number): ObjectTypeName {
+  if (a === "blackhole" || b === "blackhole") return "blackhole";
+  if (a === "neutronstar" || b === "neutronstar") {
+    return mass >= NEUTRON_STAR_MAX_MASS ? "blackhole" : "neutronstar";
+  }
+  if (mass < MAX_SPACESHIP_MASS) return "spaceship";
+  if (mass < MIN_STAR_MASS) return "planet";
+  return "star";
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { GRAVITATIONAL_CONSTANT, SPEED_OF_LIGHT } from "./constants";
+import { computeCurvatureField } from "./field";
+import { traceTestParticle } from "./particles";
+
+// GM = 100 and a horizon of 0.5
+const blackHole = { mass: 10000, position: { x: 0, y: 0, z: 0 } };
+const gm = GRAVITATIONAL_CONSTANT * blackHole.mass;
+const bounds = { minX: -40, maxX: 40, minZ: -40, maxZ: 40 };
+const { field } = computeCurvatureField([blackHole], { halfExtent: 40, divisions: 128 });
+
+describe("traceTestParticle", () => {
+  it("keeps a Schwarzschild circular orbit circular", () => {
+    const r = 8;
+    // Circular speed including the relativistic term: v² = GM / (r - 3GM/c²)
+    const v = Math.sqrt(gm / (r - (3 * gm) / (SPEED_OF_LIGHT * SPEED_OF_LIGHT)));
+    const trajectory = traceTestParticle([blackHole], field, { x: r, z: 0 }, { x: 0, z: v }, bounds, {
+      model: "schwarzschild",
+    });
+
+    expect(trajectory.outcome).toBe("bound");
+    expect(trajectory.energy).toBeLessThan(0);
+    expect(trajectory.angularMomentum).toBeCloseTo(r * v);
+    for (const p of trajectory.points) {
+      expect(Math.hypot(p.x, p.z)).toBeCloseTo(r, 1);
+      expect(p.speed).toBeCloseTo(v, 1);
+    }
+  });
+
+  it("advances the periapsis of an eccentric Schwarzschild orbit", () => {
+    const r = 10;
+    const v = 0.8 * Math.sqrt(gm / r); // launched at apoapsis
+    const { points } = traceTestParticle([blackHole], field, { x: r, z: 0 }, { x: 0, z: v }, bounds, {
+      model: "schwarzschild",
+      stepBudget: 20000,
+    });
+
+    // Apoapses are where the radius peaks; the second one is rotated counterclockwise past the first
+    const radii = points.map((p) => Math.hypot(p.x, p.z));
+    const apoapses = radii.flatMap((rr, i) => (i > 0 && i < radii.length - 1 && rr >= radii[i - 1] && rr > radii[i + 1] ? [i] : []));
+    expect(apoapses.length).toBeGreaterThan(0);
+    const angle = Math.atan2(points[apoapses[0]].z, points[apoapses[0]].x);
+    expect(angle).toBeGreaterThan(0.1);
+  });
+
+  it("escapes above escape speed and is captured when falling straight in", () => {
+    const escape = traceTestParticle([blackHole], field, { x: 5, z: 0 }, { x: 0, z: 1.2 * Math.sqrt((2 * gm) / 5) }, bounds, {
+      model: "schwarzschild",
+    });
+    expect(escape.outcome).toBe("escape");
+    expect(escape.energy).toBeGreaterThan(0);
+
+    const capture = traceTestParticle([blackHole], field, { x: 5, z: 0 }, { x: -1, z: 0 }, bounds, { model: "schwarzschild" });
+    expect(capture.outcome).toBe("capture");
+    expect(capture.angularMomentum).toBe(0);
+    expect(capture.maxSpeed).toBeGreaterThan(1);
+  });
+
+  it("orbits through the sampled potential in the field model", () => {
+    // A star, since the sheet's potential is flattened within 0.05·m of a body
+    const star = { mass: 100, position: { x: 0, y: 0, z: 0 } };
+    const starField = computeCurvatureField([star], { halfExtent: 40, divisions: 128 }).field;
+    const r = 10;
+    const v = Math.sqrt((GRAVITATIONAL_CONSTANT * star.mass) / r);
+    const trajectory = traceTestParticle([star], starField, { x: r, z: 0 }, { x: 0, z: v }, bounds);
+
+    expect(trajectory.outcome).toBe("bound");
+    expect(trajectory.energy).toBeCloseTo(-0.5 * v * v);
+    // A third of an orbit within the default budget
+    const last = trajectory.points[trajectory.points.length - 1];
+    expect(Math.atan2(last.z, last.x)).toBeGreaterThan(1);
+    for (const p of trajectory.points) {
+      expect(Math.abs(Math.hypot(p.x, p.z) - r)).toBeLessThan(0.5);
+    }
+  });
+});
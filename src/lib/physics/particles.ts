@@ -0,0 +1,144 @@
+import { GRAVITATIONAL_CONSTANT, SPEED_OF_LIGHT } from "./constants";
+import { potentialGradient } from "./field";
+import { schwarzschildRadius } from "./geodesics";
+import type { PhysicsBody, PlaneBounds, PotentialField, Vec2 } from "./types";
+
+// "field" follows the sampled weak-field potential of every body; "schwarzschild" the
+// exact metric around the heaviest body alone
+export type TrajectoryModel = "field" | "schwarzschild";
+
+// Bound: still inside the bounds when the step budget ran out; escape: left the bounds
+export type TrajectoryOutcome = "bound" | "escape" | "capture";
+
+export interface TrajectoryPoint extends Vec2 {
+  speed: number;
+}
+
+export interface Trajectory {
+  points: TrajectoryPoint[];
+  energy: number; // specific orbital energy, conserved along the path
+  angularMomentum: number; // specific angular momentum about the heaviest body, + is counterclockwise
+  outcome: TrajectoryOutcome;
+  maxSpeed: number;
+}
+
+export interface TestParticleOptions {
+  model?: TrajectoryModel;
+  stepBudget?: number;
+  maxStep?: number; // longest time step in seconds
+  pointSpacing?: number; // minimum distance between recorded points
+}
+
+const DEFAULT_TEST_PARTICLE_OPTIONS: Required<TestParticleOptions> = {
+  model: "field",
+  stepBudget: 6000,
+  maxStep: 0.01,
+  pointSpacing: 0.05,
+};
+
+// Each step moves the particle at most this fraction of its distance to the central body
+const STEP_FRACTION = 0.02;
+
+/**
+ * Follows a massive test particle launched from `start` with `velocity` until it
+ * leaves `bounds`, crosses a horizon or runs out of steps. The bodies stay fixed.
+ *
+ * In the field model the acceleration is G∇ of the sampled potential Σm/r, so the
+ * path matches the curvature shown on the sheet. In the Schwarzschild model the
+ * orbit equation is d²x/dτ² = -GM x/r³ - 3GMh² x/(c²r⁵) in proper time, with the
+ * conserved angular momentum h; the extra term makes bound orbits precess.
+ */
+export function traceTestParticle(
+  bodies: ReadonlyArray<PhysicsBody>,
+  field: PotentialField,
+  start: Vec2,
+  velocity: Vec2,
+  bounds: PlaneBounds,
+  options: TestParticleOptions = {},
+): Trajectory {
+  const { model, stepBudget, maxStep, pointSpacing } = { ...DEFAULT_TEST_PARTICLE_OPTIONS, ...options };
+  const central = bodies.reduce<PhysicsBody | null>((heaviest, b) => (!heaviest || b.mass > heaviest.mass ? b : heaviest), null);
+  const cx = central?.position.x ?? 0;
+  const cz = central?.position.z ?? 0;
+  const gm = GRAVITATIONAL_CONSTANT * (central?.mass ?? 0);
+  const c2 = SPEED_OF_LIGHT * SPEED_OF_LIGHT;
+
+  const h = (start.x - cx) * velocity.z - (start.z - cz) * velocity.x;
+  const r0 = Math.hypot(start.x - cx, start.z - cz);
+  const v0 = Math.hypot(velocity.x, velocity.z);
+  let energy: number;
+  if (model === "schwarzschild") {
+    // Kinetic plus the relativistic effective potential, -GM/r - GMh²/(c²r³)
+    energy = 0.5 * v0 * v0 - gm / r0 - (gm * h * h) / (c2 * r0 * r0 * r0);
+  } else {
+    energy = 0.5 * v0 * v0;
+    for (const b of bodies) {
+      energy -= (GRAVITATIONAL_CONSTANT * b.mass) / Math.hypot(start.x - b.position.x, start.z - b.position.z);
+    }
+  }
+
+  const accel = (x: number, z: number): Vec2 => {
+    if (model === "schwarzschild") {
+      const dx = x - cx;
+      const dz = z - cz;
+      const r2 = dx * dx + dz * dz;
+      const r = Math.sqrt(r2);
+      const k = -gm / (r2 * r) - (3 * gm * h * h) / (c2 * r2 * r2 * r);
+      return { x: k * dx, z: k * dz };
+    }
+    const g = potentialGradient(field, x, z);
+    return { x: GRAVITATIONAL_CONSTANT * g.x, z: GRAVITATIONAL_CONSTANT * g.z };
+  };
+
+  // Only the central body's horizon matters in the Schwarzschild model
+  const horizons = (model === "schwarzschild" && central ? [central] : bodies).map((b) => ({
+    x: b.position.x,
+    z: b.position.z,
+    radius: schwarzschildRadius(b.mass),
+  }));
+  const inHorizon = (x: number, z: number) => horizons.some((b) => Math.hypot(x - b.x, z - b.z) <= b.radius);
+
+  let x = start.x;
+  let z = start.z;
+  let vx = velocity.x;
+  let vz = velocity.z;
+  let maxSpeed = v0;
+  const points: TrajectoryPoint[] = [{ x, z, speed: v0 }];
+  let outcome: TrajectoryOutcome = "bound";
+
+  for (let i = 0; i < stepBudget; i++) {
+    if (inHorizon(x, z)) {
+      points.push({ x, z, speed: Math.hypot(vx, vz) });
+      outcome = "capture";
+      break;
+    }
+
+    // Kick-drift-kick leapfrog, with steps shortened on close approach
+    const speed = Math.hypot(vx, vz) || 1;
+    const distance = central ? Math.hypot(x - cx, z - cz) : Infinity;
+    const dt = Math.min(maxStep, (STEP_FRACTION * distance) / speed);
+
+    let a = accel(x, z);
+    vx += 0.5 * dt * a.x;
+    vz += 0.5 * dt * a.z;
+    x += dt * vx;
+    z += dt * vz;
+    a = accel(x, z);
+    vx += 0.5 * dt * a.x;
+    vz += 0.5 * dt * a.z;
+
+    const currentSpeed = Math.hypot(vx, vz);
+    maxSpeed = Math.max(maxSpeed, currentSpeed);
+    const outside = x < bounds.minX || x > bounds.maxX || z < bounds.minZ || z > bounds.maxZ;
+    const last = points[points.length - 1];
+    if (outside || Math.hypot(x - last.x, z - last.z) >= pointSpacing) {
+      points.push({ x, z, speed: currentSpeed });
+    }
+    if (outside) {
+      outcome = "escape";
+      break;
+    }
+  }
+
+  return { points, energy, angularMomentum: h, outcome, maxSpeed };
+}
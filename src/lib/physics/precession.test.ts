@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { GRAVITATIONAL_CONSTANT, SPEED_OF_LIGHT } from "./constants";
+import { advanceSimulation, createSimulationState, NBodyBody, periapsisVelocity } from "./nbody";
+import { createPrecessionTracker, perihelionAdvance, precessionReport, recordOrbitSample } from "./precession";
+
+const at = (x: number, z: number) => ({ x, y: 0, z });
+
+// A planet starting at the periapsis of an e = 0.3 orbit around a heavy star
+const mercury = (): NBodyBody[] => {
+  const star: NBodyBody = { mass: 1000, position: at(0, 0), velocity: at(0, 0) };
+  const planet: NBodyBody = { mass: 1, position: at(5, 0), velocity: at(0, 0) };
+  planet.velocity = periapsisVelocity(planet, star, 0.3);
+  return [star, planet];
+};
+
+const measure = (postNewtonian: boolean, orbits: number) => {
+  const state = createSimulationState(mercury(), { postNewtonian });
+  const tracker = createPrecessionTracker();
+  // Starting at periapsis, the first passage is only seen after one orbit
+  const period = 2 * Math.PI * Math.sqrt((5 / 0.7) ** 3 / (GRAVITATIONAL_CONSTANT * 1001));
+  advanceSimulation(state, period * (orbits + 1.5), ({ bodies: [star, planet], time }) => {
+    recordOrbitSample(
+      tracker,
+      time,
+      { x: planet.position.x - star.position.x, z: planet.position.z - star.position.z },
+      { x: planet.velocity.x - star.velocity.x, z: planet.velocity.z - star.velocity.z },
+    );
+  });
+  return precessionReport(tracker, 1001);
+};
+
+describe("perihelionAdvance", () => {
+  it("is 6πGM/(c²a(1−e²))", () => {
+    const gm = GRAVITATIONAL_CONSTANT * 1000;
+    expect(perihelionAdvance(1000, 8, 0.5)).toBeCloseTo((6 * Math.PI * gm) / (SPEED_OF_LIGHT ** 2 * 8 * 0.75), 12);
+    expect(perihelionAdvance(1000, 8, 0)).toBeLessThan(perihelionAdvance(1000, 8, 0.5));
+  });
+});
+
+describe("precessionReport", () => {
+  it("measures the post-Newtonian advance of an eccentric orbit", () => {
+    const report = measure(true, 3)!;
+
+    expect(report.orbits).toBe(3);
+    expect(report.eccentricity).toBeCloseTo(0.3, 1);
+    expect(report.measured).toBeGreaterThan(0);
+    expect(report.measured / report.predicted).toBeCloseTo(1, 1);
+  });
+
+  it("sees almost no advance under Newtonian gravity", () => {
+    const report = measure(false, 2)!;
+    const predicted = perihelionAdvance(1001, report.semiMajorAxis, report.eccentricity);
+    expect(Math.abs(report.measured)).toBeLessThan(0.05 * predicted);
+  });
+
+  it("waits for a full orbit and ignores circular ones", () => {
+    const tracker = createPrecessionTracker();
+    for (let i = 0; i < 2000; i++) {
+      const angle = i * 0.01;
+      const radius = 5 + 1e-6 * Math.sin(i);
+      recordOrbitSample(tracker, i, { x: radius * Math.cos(angle), z: radius * Math.sin(angle) }, at(0, 0));
+    }
+    expect(tracker.passages).toHaveLength(0);
+    expect(precessionReport(tracker, 1000)).toBeNull();
+  });
+});
@@ -0,0 +1,129 @@
+import { GRAVITATIONAL_CONSTANT, SPEED_OF_LIGHT } from "./constants";
+import type { Vec2 } from "./types";
+
+// Orbits rounder than this have no periapsis worth tracking; their minima are integration noise
+const MIN_ECCENTRICITY = 0.01;
+
+/**
+ * General-relativistic periapsis advance per orbit, 6πGM/(c²a(1−e²)) radians, for
+ * an orbit of semi-major axis `a` and eccentricity `e` around a total mass `mass`.
+ */
+export function perihelionAdvance(mass: number, semiMajorAxis: number, eccentricity: number): number {
+  const p = semiMajorAxis * (1 - eccentricity * eccentricity);
+  return p > 0 ? (6 * Math.PI * GRAVITATIONAL_CONSTANT * mass) / (SPEED_OF_LIGHT * SPEED_OF_LIGHT * p) : 0;
+}
+
+export interface PeriapsisPassage {
+  time: number;
+  angle: number; // direction of the periapsis from the central body, atan2(z, x)
+  radius: number;
+}
+
+interface OrbitSample {
+  time: number;
+  angle: number;
+  radius: number;
+}
+
+// Follows one body's orbit relative to another, one integration step at a time
+export interface PrecessionTracker {
+  recent: OrbitSample[]; // last three samples
+  passages: PeriapsisPassage[];
+  farthest: number; // largest separation since the last periapsis
+  apoapsis: number | null; // largest separation between the last two periapsides
+  sense: number; // +1 counterclockwise from above (+x toward +z), -1 clockwise
+}
+
+export interface PrecessionReport {
+  orbits: number; // complete orbits measured
+  measured: number; // mean periapsis advance per orbit in radians, + along the motion
+  predicted: number; // 6πGM/(c²a(1−e²)) for the latest orbit
+  semiMajorAxis: number;
+  eccentricity: number;
+}
+
+export function createPrecessionTracker(): PrecessionTracker {
+  return { recent: [], passages: [], farthest: 0, apoapsis: null, sense: 1 };
+}
+
+const wrapAngle = (angle: number) => Math.atan2(Math.sin(angle), Math.cos(angle));
+
+/**
+ * Adds the separation and relative velocity of the orbiting body after a step.
+ * A periapsis is a minimum of the separation; its time, radius and direction are
+ * refined by fitting a parabola through the three samples around the minimum, so
+ * the measured advance is not limited by the step size. Returns the passage when
+ * this sample completed one.
+ */
+export function recordOrbitSample(
+  tracker: PrecessionTracker,
+  time: number,
+  offset: Vec2,
+  velocity: Vec2,
+): PeriapsisPassage | null {
+  const radius = Math.hypot(offset.x, offset.z);
+  tracker.recent.push({ time, angle: Math.atan2(offset.z, offset.x), radius });
+  if (tracker.recent.length > 3) tracker.recent.shift();
+  tracker.sense = offset.x * velocity.z - offset.z * velocity.x >= 0 ? 1 : -1;
+  tracker.farthest = Math.max(tracker.farthest, radius);
+  if (tracker.recent.length < 3) return null;
+
+  const [s0, s1, s2] = tracker.recent;
+  if (!(s1.radius < s0.radius && s1.radius <= s2.radius)) return null;
+  if (tracker.farthest < s1.radius * (1 + 2 * MIN_ECCENTRICITY)) return null;
+
+  // Lagrange parabola through the three samples, in time relative to the middle one
+  const quadratic = (y0: number, y1: number, y2: number, t: number) => {
+    const t0 = s0.time - s1.time;
+    const t2 = s2.time - s1.time;
+    return (
+      (y0 * t * (t - t2)) / (t0 * (t0 - t2)) +
+      (y1 * (t - t0) * (t - t2)) / (t0 * t2) +
+      (y2 * t * (t - t0)) / (t2 * (t2 - t0))
+    );
+  };
+  const t0 = s0.time - s1.time;
+  const t2 = s2.time - s1.time;
+  // Vertex of the radius parabola: where its derivative vanishes
+  const a = s0.radius / (t0 * (t0 - t2)) + s1.radius / (t0 * t2) + s2.radius / (t2 * (t2 - t0));
+  const b =
+    (-s0.radius * t2) / (t0 * (t0 - t2)) - (s1.radius * (t0 + t2)) / (t0 * t2) - (s2.radius * t0) / (t2 * (t2 - t0));
+  const t = a > 0 ? Math.min(t2, Math.max(t0, -b / (2 * a))) : 0;
+
+  const passage: PeriapsisPassage = {
+    time: s1.time + t,
+    angle: wrapAngle(s1.angle + quadratic(wrapAngle(s0.angle - s1.angle), 0, wrapAngle(s2.angle - s1.angle), t)),
+    radius: quadratic(s0.radius, s1.radius, s2.radius, t),
+  };
+  tracker.passages.push(passage);
+  if (tracker.passages.length > 1) tracker.apoapsis = tracker.farthest;
+  tracker.farthest = radius;
+  return passage;
+}
+
+/**
+ * Mean periapsis advance over the tracked orbits next to the analytic value for
+ * the latest one, with a and e taken from its periapsis and apoapsis radii.
+ * Null until one full orbit has been followed.
+ */
+export function precessionReport(tracker: PrecessionTracker, mass: number): PrecessionReport | null {
+  const { passages, apoapsis } = tracker;
+  if (passages.length < 2 || apoapsis === null) return null;
+
+  let total = 0;
+  for (let i = 1; i < passages.length; i++) {
+    total += tracker.sense * wrapAngle(passages[i].angle - passages[i - 1].angle);
+  }
+  const orbits = passages.length - 1;
+  const periapsis = passages[passages.length - 1].radius;
+  const semiMajorAxis = (periapsis + apoapsis) / 2;
+  const eccentricity = (apoapsis - periapsis) / (apoapsis + periapsis);
+
+  return {
+    orbits,
+    measured: total / orbits,
+    predicted: perihelionAdvance(mass, semiMajorAxis, eccentricity),
+    semiMajorAxis,
+    eccentricity,
+  };
+}
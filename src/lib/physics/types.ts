@@ -0,0 +1,58 @@
+export interface Vec2 {
+  x: number;
+  z: number;
+}
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Anything with a mass and a position can source curvature
+export interface PhysicsBody {
+  mass: number; // mass in solar masses
+  position: Vec3;
+}
+
+// Square sheet centered on the origin, lying in the XZ plane
+export interface GridSpec {
+  halfExtent: number; // sheet spans [-halfExtent, halfExtent] on both axes
+  divisions: number; // segments per side; vertices per side is divisions + 1
+}
+
+// Centered potential sampled on the grid vertices (row-major, z rows of x)
+export interface PotentialField {
+  values: Float32Array;
+  nx: number; // divisions + 1 in x
+  nz: number; // divisions + 1 in z
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+// Axis-aligned rectangle in the XZ plane; a PotentialField satisfies it
+export interface PlaneBounds {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+export interface CurvatureField {
+  displacements: Float32Array; // Y offset per vertex
+  heat: Float32Array; // normalized |potential| per vertex in [0, 1]
+  field: PotentialField;
+  mean: number; // mean raw potential subtracted when centering
+  maxAbs: number; // largest centered |potential|, used to normalize heat
+}
+
+export interface RayPath {
+  points: Vec2[];
+}
+
+export interface NullGeodesic extends RayPath {
+  captured: boolean; // crossed a horizon and ended there
+  deflection: number | null; // signed turn in radians from start to exit, null when captured
+}
@@ -0,0 +1,6 @@
+// Shared by the client and Convex functions, so this module must stay free of path aliases
+
+// Participants that haven't sent a heartbeat within this window are considered gone
+export const PRESENCE_TTL_MS = 15_000;
+
+export const isPresenceLive = (lastSeen: number, now: number) => lastSeen > now - PRESENCE_TTL_MS;
@@ -0,0 +1,103 @@
+// Shared by the client and Convex functions, so this module must stay free of path aliases
+
+export const RAY_EMITTER_KINDS = ["parallel", "point", "single"] as const;
+export type RayEmitterKind = (typeof RAY_EMITTER_KINDS)[number];
+
+export interface RayEmitterFields {
+  kind: RayEmitterKind;
+  origin: { x: number; z: number }; // center of a beam, or where point and single rays start
+  direction: number; // heading in the XZ plane, radians counterclockwise from +X
+  spread: number; // beam width in scene units, or fan angle in radians for point sources
+  rayCount: number;
+  color: string; // #rrggbb
+  stepBudget: number; // integration steps per ray
+}
+
+export const MAX_EMITTERS_PER_SCENE = 16;
+export const RAY_COUNT_MIN = 1;
+export const RAY_COUNT_MAX = 64;
+export const STEP_BUDGET_MIN = 20;
+export const STEP_BUDGET_MAX = 8000;
+export const MAX_FAN_ANGLE = 2 * Math.PI;
+
+export const RAY_EMITTER_LABELS: Record<RayEmitterKind, string> = {
+  parallel: "Parallel beam",
+  point: "Point source",
+  single: "Single ray",
+};
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+// Starting point for a new emitter of each kind, sized to the grid's half-extent
+export function defaultRayEmitter(kind: RayEmitterKind, extent: number): RayEmitterFields {
+  switch (kind) {
+    case "parallel":
+      return {
+        kind,
+        origin: { x: -extent, z: 0 },
+        direction: 0,
+        spread: extent * 2,
+        rayCount: 8,
+        color: "#ffe27a",
+        stepBudget: 600,
+      };
+    case "point":
+      return {
+        kind,
+        origin: { x: -extent / 2, z: 0 },
+        direction: 0,
+        spread: Math.PI / 3,
+        rayCount: 12,
+        color: "#7ad7ff",
+        stepBudget: 600,
+      };
+    case "single":
+      return {
+        kind,
+        origin: { x: -extent / 2, z: extent / 4 },
+        direction: 0,
+        spread: 0,
+        rayCount: 1,
+        color: "#ff9de2",
+        stepBudget: 1000,
+      };
+  }
+}
+
+/**
+ * Returns a `label.field: reason` message for the first invalid field, or null.
+ * Omitted fields are not checked, so this also validates partial updates.
+ */
+export function rayEmitterError(fields: Partial<RayEmitterFields>, label: string): string | null {
+  if (fields.kind !== undefined && !RAY_EMITTER_KINDS.includes(fields.kind)) {
+    return `${label}.kind: unknown emitter kind "${fields.kind}"`;
+  }
+  if (fields.origin && !(Number.isFinite(fields.origin.x) && Number.isFinite(fields.origin.z))) {
+    return `${label}.origin: coordinates must be finite`;
+  }
+  if (fields.direction !== undefined && !Number.isFinite(fields.direction)) {
+    return `${label}.direction: must be a finite angle`;
+  }
+  if (fields.spread !== undefined && (!Number.isFinite(fields.spread) || fields.spread < 0)) {
+    return `${label}.spread: must be zero or positive`;
+  }
+  if (fields.kind === "point" && fields.spread !== undefined && fields.spread > MAX_FAN_ANGLE) {
+    return `${label}.spread: a fan can't be wider than a full turn`;
+  }
+  if (
+    fields.rayCount !== undefined &&
+    (!Number.isInteger(fields.rayCount) || fields.rayCount < RAY_COUNT_MIN || fields.rayCount > RAY_COUNT_MAX)
+  ) {
+    return `${label}.rayCount: must be a whole number between ${RAY_COUNT_MIN} and ${RAY_COUNT_MAX}`;
+  }
+  if (fields.color !== undefined && !COLOR_PATTERN.test(fields.color)) {
+    return `${label}.color: must be a #rrggbb hex color`;
+  }
+  if (
+    fields.stepBudget !== undefined &&
+    (!Number.isInteger(fields.stepBudget) || fields.stepBudget < STEP_BUDGET_MIN || fields.stepBudget > STEP_BUDGET_MAX)
+  ) {
+    return `${label}.stepBudget: must be a whole number between ${STEP_BUDGET_MIN} and ${STEP_BUDGET_MAX}`;
+  }
+  return null;
+}
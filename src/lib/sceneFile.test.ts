@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { parseSceneFile, SCENE_FILE_VERSION, serializeScene } from "./sceneFile";
+
+const view = {
+  showGeodesics: true,
+  camera: { radius: 15, phi: 1, theta: 0, target: { x: 0, y: 0, z: 0 } },
+};
+
+describe("scene files", () => {
+  it("round-trips exported objects and view settings", () => {
+    const objects = [
+      { type: "star", mass: 100, position: { x: 1, y: 0, z: -2 }, name: "Sun", velocity: { x: 0, y: 0, z: 1 } },
+      { type: "planet", mass: 1, position: { x: 5, y: 0, z: 0 } },
+    ];
+    const parsed = parseSceneFile(serializeScene("Demo", objects, view));
+
+    expect(parsed.success).toBe(true);
+    if (!parsed.success) return;
+    expect(parsed.file.version).toBe(SCENE_FILE_VERSION);
+    expect(parsed.file.objects).toEqual(objects);
+    expect(parsed.file.view).toEqual(view);
+  });
+
+  it("drops server-only fields on export", () => {
+    const json = serializeScene("Demo", [{ _id: "abc", userId: "u", type: "planet", mass: 1, position: { x: 0, y: 0, z: 0 } } as never], view);
+    expect(json).not.toContain("abc");
+  });
+
+  it("reports errors per field", () => {
+    const text = JSON.stringify({
+      version: SCENE_FILE_VERSION,
+      objects: [
+        { type: "planet", mass: 1, position: { x: 0, y: 0, z: 0 } },
+        { type: "comet", mass: -1, position: { x: 0, y: 0 } },
+      ],
+    });
+    const parsed = parseSceneFile(text);
+
+    expect(parsed.success).toBe(false);
+    if (parsed.success) return;
+    expect(parsed.errors).toHaveLength(3);
+    expect(parsed.errors.some((e) => e.startsWith("objects.1.type:"))).toBe(true);
+    expect(parsed.errors.some((e) => e.startsWith("objects.1.mass:"))).toBe(true);
+    expect(parsed.errors.some((e) => e.startsWith("objects.1.position.z:"))).toBe(true);
+  });
+
+  it("rejects unknown versions and malformed JSON", () => {
+    expect(parseSceneFile(JSON.stringify({ version: 99, objects: [] })).success).toBe(false);
+    expect(parseSceneFile("{not json")).toEqual({ success: false, errors: ["File is not valid JSON"] });
+  });
+});
@@ -0,0 +1,103 @@
+import { OBJECT_TYPES, ObjectTypeName } from "@/lib/physics";
+import { z } from "zod";
+
+// Bump when the document shape changes, and keep parsing older versions
+export const SCENE_FILE_VERSION = 1;
+
+const OBJECT_TYPE_NAMES = Object.keys(OBJECT_TYPES) as [ObjectTypeName, ...ObjectTypeName[]];
+
+const vector = z
+  .object({
+    x: z.number().finite(),
+    y: z.number().finite(),
+    z: z.number().finite(),
+  })
+  .strict();
+
+const sceneObject = z
+  .object({
+    type: z.enum(OBJECT_TYPE_NAMES),
+    mass: z.number().finite().positive(),
+    position: vector,
+    name: z.string().max(100).optional(),
+    velocity: vector.optional(),
+  })
+  .strict();
+
+const sceneView = z
+  .object({
+    showGeodesics: z.boolean(),
+    camera: z
+      .object({
+        radius: z.number().finite().positive(),
+        phi: z.number().finite().min(0).max(Math.PI),
+        theta: z.number().finite(),
+        target: vector,
+      })
+      .strict(),
+  })
+  .strict();
+
+export const sceneFileSchema = z
+  .object({
+    version: z.literal(SCENE_FILE_VERSION),
+    name: z.string().optional(),
+    objects: z.array(sceneObject),
+    view: sceneView.optional(),
+  })
+  .strict();
+
+export type SceneFile = z.infer<typeof sceneFileSchema>;
+export type SceneFileObject = z.infer<typeof sceneObject>;
+export type SceneFileView = z.infer<typeof sceneView>;
+
+export type SceneFileParseResult = { success: true; file: SceneFile } | { success: false; errors: string[] };
+
+/**
+ * Parses and validates an exported scene document. Errors are reported per
+ * field as `path: message`, e.g. `objects.2.mass: Number must be greater than 0`.
+ */
+export function parseSceneFile(text: string): SceneFileParseResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { success: false, errors: ["File is not valid JSON"] };
+  }
+
+  const result = sceneFileSchema.safeParse(json);
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map((issue) =>
+        issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message,
+      ),
+    };
+  }
+  return { success: true, file: result.data };
+}
+
+interface ExportableObject {
+  type: string;
+  mass: number;
+  position: { x: number; y: number; z: number };
+  name?: string;
+  velocity?: { x: number; y: number; z: number };
+}
+
+export function serializeScene(name: string | undefined, objects: ReadonlyArray<ExportableObject>, view: SceneFileView) {
+  const file = {
+    version: SCENE_FILE_VERSION,
+    name,
+    // Copy only the portable fields; ids and ownership don't survive an import
+    objects: objects.map(({ type, mass, position, name, velocity }) => ({
+      type,
+      mass,
+      position: { x: position.x, y: position.y, z: position.z },
+      ...(name !== undefined && { name }),
+      ...(velocity && { velocity: { x: velocity.x, y: velocity.y, z: velocity.z } }),
+    })),
+    view,
+  };
+  return JSON.stringify(file, null, 2);
+}
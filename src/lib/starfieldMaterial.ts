@@ -0,0 +1,133 @@
+import { PhysicsBody, schwarzschildRadius, SHADOW_RADIUS_FACTOR } from "@/lib/physics";
+import * as THREE from "three";
+
+// Strongest lenses handed to the shader. A uniform array rather than a float texture keeps
+// the pass working under software WebGL, which headless test browsers fall back to.
+export const MAX_LENSES = 16;
+
+export type StarfieldMesh = THREE.Mesh<THREE.PlaneGeometry, THREE.ShaderMaterial>;
+
+const vertexShader = /* glsl */ `
+  varying vec2 vNdc;
+
+  void main() {
+    vNdc = position.xy;
+    // Full-screen quad just inside the far plane
+    gl_Position = vec4(position.xy, 0.999, 1.0);
+  }
+`;
+
+// Same thin-lens mapping as `lensedDirection`, evaluated per pixel, then a procedural starfield
+const fragmentShader = /* glsl */ `
+  #define MAX_LENSES ${MAX_LENSES}
+  #define SHADOW_RADIUS_FACTOR ${SHADOW_RADIUS_FACTOR.toFixed(6)}
+
+  uniform vec4 uLenses[MAX_LENSES]; // xyz position, w horizon radius
+  uniform int uLensCount;
+  uniform mat4 uCameraMatrixWorld;
+  uniform mat4 uProjectionInverse;
+
+  varying vec2 vNdc;
+
+  float hash(vec3 p) {
+    p = fract(p * 0.3183099 + 0.1);
+    p *= 17.0;
+    return fract(p.x * p.y * p.z * (p.x + p.y + p.z));
+  }
+
+  // Stars live in cells of a 3D lattice; a direction shows the star of the cell it passes through
+  vec3 stars(vec3 dir, float density, float threshold) {
+    vec3 cell = floor(dir * density);
+    float h = hash(cell);
+    if (h < threshold) return vec3(0.0);
+    vec3 center = normalize(cell + 0.25 + 0.5 * vec3(hash(cell + 1.7), hash(cell + 3.1), hash(cell + 5.3)));
+    float d = length(dir - center) * density;
+    float brightness = (h - threshold) / (1.0 - threshold);
+    vec3 tint = mix(vec3(0.7, 0.8, 1.0), vec3(1.0, 0.85, 0.6), hash(cell + 7.9));
+    return tint * brightness * smoothstep(0.08, 0.0, d);
+  }
+
+  vec3 starfield(vec3 dir) {
+    // Faint band along the XZ plane so the distortion reads even between stars
+    vec3 color = vec3(0.015, 0.015, 0.025) + vec3(0.03, 0.03, 0.045) * pow(1.0 - abs(dir.y), 6.0);
+    color += stars(dir, 40.0, 0.8);
+    color += 0.6 * stars(dir, 110.0, 0.85);
+    return color;
+  }
+
+  void main() {
+    vec4 view = uProjectionInverse * vec4(vNdc, 1.0, 1.0);
+    vec3 dir = normalize((uCameraMatrixWorld * vec4(view.xyz / view.w, 0.0)).xyz);
+
+    vec3 source = dir;
+    for (int i = 0; i < MAX_LENSES; i++) {
+      if (i >= uLensCount) break;
+      vec3 offset = uLenses[i].xyz - cameraPosition;
+      float distance = length(offset);
+      vec3 l = offset / distance;
+      float c = dot(dir, l);
+      if (c <= 0.0) continue;
+
+      float theta = acos(min(c, 1.0));
+      float rs = uLenses[i].w;
+      if (theta < atan(SHADOW_RADIUS_FACTOR * rs / distance)) {
+        gl_FragColor = vec4(0.0, 0.0, 0.0, 1.0);
+        return;
+      }
+      if (theta < 0.000001) continue;
+
+      // Turn toward the lens by θ_E²/θ, with θ_E² = 2 r_s / D
+      float shift = 2.0 * rs / (distance * theta);
+      vec3 toward = normalize(l - dir * c);
+      source = source * cos(shift) + toward * sin(shift);
+    }
+
+    gl_FragColor = vec4(starfield(normalize(source)), 1.0);
+    #include <colorspace_fragment>
+  }
+`;
+
+// Background quad that draws a starfield lensed by the scene's masses
+export function createStarfield(): StarfieldMesh {
+  const material = new THREE.ShaderMaterial({
+    uniforms: {
+      uLenses: { value: Array.from({ length: MAX_LENSES }, () => new THREE.Vector4()) },
+      uLensCount: { value: 0 },
+      uCameraMatrixWorld: { value: new THREE.Matrix4() },
+      uProjectionInverse: { value: new THREE.Matrix4() },
+    },
+    vertexShader,
+    fragmentShader,
+    depthTest: false,
+    depthWrite: false,
+  });
+  const mesh = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), material);
+  mesh.frustumCulled = false;
+  // Drawn before everything else
+  mesh.renderOrder = -10;
+  return mesh;
+}
+
+/**
+ * Points the starfield at the camera's view and loads the lenses, strongest first
+ * (largest θ_E², i.e. r_s over distance) when there are more than the shader takes.
+ */
+export function updateStarfield(mesh: StarfieldMesh, camera: THREE.Camera, bodies: ReadonlyArray<PhysicsBody>) {
+  const { uniforms } = mesh.material;
+  uniforms.uCameraMatrixWorld.value.copy(camera.matrixWorld);
+  uniforms.uProjectionInverse.value.copy(camera.projectionMatrixInverse);
+
+  const eye = camera.position;
+  const lenses = bodies
+    .map((b) => {
+      const rs = schwarzschildRadius(b.mass);
+      const distance = Math.hypot(b.position.x - eye.x, b.position.y - eye.y, b.position.z - eye.z);
+      return { b, rs, strength: rs / Math.max(distance, 1e-6) };
+    })
+    .sort((a, b) => b.strength - a.strength)
+    .slice(0, MAX_LENSES);
+
+  const slots = uniforms.uLenses.value as THREE.Vector4[];
+  lenses.forEach(({ b, rs }, i) => slots[i].set(b.position.x, b.position.y, b.position.z, rs));
+  uniforms.uLensCount.value = lenses.length;
+}
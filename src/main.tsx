@@ -2,6 +2,7 @@ import { Toaster } from "@/components/ui/sonner";
 import { VlyToolbar } from "../vly-toolbar-readonly.tsx";
 import { InstrumentationProvider } from "@/instrumentation.tsx";
 import AuthPage from "@/pages/Auth.tsx";
+import SharedScenePage from "@/pages/SharedScene.tsx";
 import VisualizerPage from "@/pages/Visualizer.tsx";
 import { ConvexAuthProvider } from "@convex-dev/auth/react";
 import { ConvexReactClient } from "convex/react";
@@ -49,6 +50,7 @@ createRoot(document.getElementById("root")!).render(
             <Route path="/" element={<Landing />} />
             <Route path="/auth" element={<AuthPage redirectAfterAuth="/visualizer" />} />
             <Route path="/visualizer" element={<VisualizerPage />} />
+            <Route path="/s/:token" element={<SharedScenePage />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
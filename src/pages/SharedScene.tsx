@@ -0,0 +1,9 @@
+import SpacetimeVisualizer from "@/components/SpacetimeVisualizer";
+import { useParams } from "react-router";
+
+// Public read-only view of a scene published under a share token; no sign in required
+export default function SharedScenePage() {
+  const { token } = useParams<{ token: string }>();
+
+  return <SpacetimeVisualizer key={token} shareToken={token ?? ""} />;
+}
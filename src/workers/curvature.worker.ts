@@ -0,0 +1,53 @@
+import {
+  AdaptiveAxes,
+  adaptiveGridAxes,
+  computeCurvatureField,
+  GridSpec,
+  PhysicsBody,
+  PotentialField,
+  traceLightSources,
+  TracedRay,
+  TracedSource,
+} from "@/lib/physics";
+
+// Light paths to trace through the new field, so a running simulation doesn't retrace them on the main thread
+export interface RayRequest {
+  sources: TracedSource[];
+  physical: boolean; // photon orbits rather than the visual heuristic
+  defaultColor: string; // of the beam drawn when there are no sources
+}
+
+export interface CurvatureRequest {
+  requestId: number;
+  bodies: PhysicsBody[];
+  grid: GridSpec;
+  openingAngle: number; // Barnes–Hut opening angle, 0 for the exact sum
+  // Rendered sheet resolution to lay out adaptively, or null for a uniform sheet
+  lodDivisions: number | null;
+  rays: RayRequest | null; // null when light paths are hidden
+}
+
+// The GPU displaces the sheet itself; it only needs the centering and normalization terms
+export interface CurvatureResult {
+  requestId: number;
+  field: PotentialField;
+  mean: number;
+  maxAbs: number;
+  axes: AdaptiveAxes | null;
+  rays: TracedRay[] | null;
+}
+
+// Evaluates the curvature field off the main thread and hands the buffers back without copying
+self.onmessage = (event: MessageEvent<CurvatureRequest>) => {
+  const { requestId, bodies, grid, openingAngle, lodDivisions, rays: rayRequest } = event.data;
+  const { field, mean, maxAbs } = computeCurvatureField(bodies, grid, undefined, openingAngle);
+  const axes = lodDivisions ? adaptiveGridAxes(field, lodDivisions) : null;
+  const rays = rayRequest
+    ? traceLightSources(bodies, field, rayRequest.sources, rayRequest.physical, rayRequest.defaultColor)
+    : null;
+
+  const result: CurvatureResult = { requestId, field, mean, maxAbs, axes, rays };
+  const transfer = [field.values.buffer];
+  if (axes) transfer.push(axes.xs.buffer, axes.zs.buffer);
+  self.postMessage(result, { transfer });
+};